@@ -0,0 +1,40 @@
+import { createServer } from "node:http";
+import { Readable } from "node:stream";
+import { createFakeBackend } from "../src/test/backend";
+
+// The fake backend over real HTTP, for the end-to-end tests and for trying the
+// HTTP client by hand: `npx vite-node e2e/backend.ts`
+
+const PORT = Number(process.env.PORT ?? 8787);
+
+const backend = createFakeBackend({ latencyMs: 100, tokenDelayMs: 10 });
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Accept"
+};
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, cors).end();
+    return;
+  }
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") headers.set(name, value);
+  }
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  const response = await backend(new Request(`http://localhost:${PORT}${req.url}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? Readable.toWeb(req) as ReadableStream<Uint8Array> : undefined,
+    duplex: hasBody ? "half" : undefined
+  } as RequestInit));
+
+  res.writeHead(response.status, { ...Object.fromEntries(response.headers), ...cors });
+  if (response.body) {
+    for await (const chunk of response.body) res.write(chunk);
+  }
+  res.end();
+}).listen(PORT, () => console.log(`Fake backend listening on http://localhost:${PORT}`));
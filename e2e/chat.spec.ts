@@ -0,0 +1,55 @@
+import { expect, test, type Page } from "@playwright/test";
+
+const notes = {
+  name: "notes.txt",
+  mimeType: "text/plain",
+  buffer: Buffer.from("The team decided to ship on Friday.")
+};
+
+const uploadNotes = async (page: Page) => {
+  await page.locator("#file-upload").setInputFiles(notes);
+  const checkbox = page.getByRole("checkbox", { name: "Select notes.txt" });
+  await expect(checkbox).toBeEnabled();
+  return checkbox;
+};
+
+const ask = async (page: Page, question: string) => {
+  await page.getByRole("textbox", { name: "Question" }).fill(question);
+  await page.keyboard.press("Enter");
+  // Sources arrive once the answer has finished streaming
+  await expect(page.getByRole("main").getByRole("button", { name: /Show Sources/ })).toBeVisible();
+};
+
+test.beforeEach(async ({ page }) => {
+  await page.goto("/");
+  await expect(page.getByRole("status").filter({ hasText: "Connected" })).toBeVisible();
+});
+
+test("uploads a document, answers from it with sources and removes it", async ({ page }) => {
+  const checkbox = await uploadNotes(page);
+  await checkbox.check();
+  await expect(page).toHaveURL(/\/doc\/[^/]+$/);
+
+  await ask(page, "What was decided?");
+  const thread = page.getByRole("main");
+  await expect(thread.getByText(/simulated answer to "What was decided\?"/)).toBeVisible();
+  await expect(page).toHaveURL(/\/doc\/[^/]+\/chat\/[^/]+$/);
+
+  await thread.getByRole("button", { name: "Show Sources (1)" }).click();
+  await expect(thread.getByText(/Excerpt from notes\.txt/)).toBeVisible();
+
+  await page.getByRole("button", { name: "Remove notes.txt" }).click();
+  await expect(checkbox).toHaveCount(0);
+});
+
+test("reopens a conversation from its URL after a reload", async ({ page }) => {
+  await (await uploadNotes(page)).check();
+  await ask(page, "When do we ship?");
+  const url = page.url();
+
+  await page.goto("/");
+  await page.goto(url);
+
+  await expect(page.getByRole("main").getByText("When do we ship?")).toBeVisible();
+  await expect(page.getByRole("checkbox", { name: "Select notes.txt" })).toBeChecked();
+});
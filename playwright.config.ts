@@ -0,0 +1,32 @@
+import { defineConfig, devices } from "@playwright/test";
+
+const BACKEND_PORT = 8787;
+const APP_PORT = 5174;
+
+// Runs the dev server against the fake backend served over HTTP (e2e/backend.ts)
+export default defineConfig({
+  testDir: "./e2e",
+  fullyParallel: false,
+  retries: process.env.CI ? 2 : 0,
+  use: {
+    baseURL: `http://localhost:${APP_PORT}`,
+    trace: "on-first-retry"
+  },
+  projects: [
+    { name: "chromium", use: { ...devices["Desktop Chrome"] } }
+  ],
+  webServer: [
+    {
+      command: "npx vite-node e2e/backend.ts",
+      port: BACKEND_PORT,
+      env: { PORT: String(BACKEND_PORT) },
+      reuseExistingServer: !process.env.CI
+    },
+    {
+      command: `npx vite --port ${APP_PORT} --strictPort`,
+      port: APP_PORT,
+      env: { VITE_API_BASE_URL: `http://localhost:${BACKEND_PORT}`, VITE_USE_FAKE_API: "false" },
+      reuseExistingServer: !process.env.CI
+    }
+  ]
+});
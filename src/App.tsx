@@ -1,7 +1,10 @@
-import ChatApp from "./components/chatapp/ChatApp";
+import { createBrowserRouter, RouterProvider } from "react-router";
+import { routes } from "./router";
+
+const router = createBrowserRouter(routes);
 
 function App() {
-  return <ChatApp />;
+  return <RouterProvider router={router} />;
 }
 
 export default App;
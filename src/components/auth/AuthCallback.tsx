@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, Navigate, useLocation, useNavigate } from "react-router";
+import { auth } from "@/lib/auth";
+import { t } from "@/lib/i18n";
+import { ROUTES } from "@/lib/routes";
+import { resetChatStore } from "@/store/chatStore";
+import AuthLayout from "./AuthLayout";
+
+// Where the identity provider sends the browser back: trades the code for tokens
+export default function AuthCallback() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [error, setError] = useState("");
+  // A code can only be redeemed once, and StrictMode runs effects twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (!auth || started.current) return;
+    started.current = true;
+    auth.completeSignIn(`${window.location.origin}${location.pathname}${location.search}`)
+      .then(returnTo => {
+        // Nothing from an earlier account may show up in this one
+        resetChatStore();
+        navigate(returnTo, { replace: true });
+      })
+      .catch(error => setError(error instanceof Error ? error.message : t("errors.unknown")));
+  }, [location, navigate]);
+
+  if (!auth) return <Navigate to={ROUTES.home} replace />;
+
+  return (
+    <AuthLayout title={error ? t("auth.failed") : t("auth.completing")}>
+      {error && (
+        <>
+          <p role="alert" className="text-sm text-red-600 mb-4">{error}</p>
+          <Link to={ROUTES.home} replace className="text-sm text-blue-600 hover:text-blue-700 underline">
+            {t("auth.retry")}
+          </Link>
+        </>
+      )}
+    </AuthLayout>
+  );
+}
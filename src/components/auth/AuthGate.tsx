@@ -0,0 +1,12 @@
+import { Fragment, type ReactNode } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import SignIn from "./SignIn";
+
+// Renders `children` for a signed-in user, remounted per user so no state carries over
+export default function AuthGate({ children }: { children: ReactNode }) {
+  const { session, enabled } = useAuth();
+
+  if (!enabled) return children;
+  if (!session) return <SignIn />;
+  return <Fragment key={session.user.id}>{children}</Fragment>;
+}
@@ -0,0 +1,29 @@
+import type { ReactNode } from "react";
+import { MessageCircle } from "lucide-react";
+import { t } from "@/lib/i18n";
+import { useLocale } from "@/hooks/useLocale";
+
+interface AuthLayoutProps {
+  title: string;
+  children: ReactNode;
+}
+
+// Card the sign-in screens share
+export default function AuthLayout({ title, children }: AuthLayoutProps) {
+  useLocale();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm rounded-xl bg-white shadow-xl p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg" aria-hidden="true">
+            <MessageCircle className="w-5 h-5 text-white" />
+          </div>
+          <p className="text-lg font-semibold text-gray-800">{t("app.name")}</p>
+        </div>
+        <h1 className="text-base font-medium text-gray-800 mb-2">{title}</h1>
+        {children}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,34 @@
+import { useState, type FormEvent } from "react";
+import { useLocation } from "react-router";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { mockIdp } from "@/lib/auth";
+import { t } from "@/lib/i18n";
+import { useRedirect } from "@/hooks/useRedirect";
+import AuthLayout from "./AuthLayout";
+
+// The mock identity provider's sign-in page, served by the app itself
+export default function MockIdpSignIn() {
+  const location = useLocation();
+  const redirect = useRedirect();
+  const [username, setUsername] = useState("alice");
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!mockIdp) return;
+    redirect(mockIdp.authorize(`${window.location.origin}${location.pathname}${location.search}`, username));
+  };
+
+  return (
+    <AuthLayout title={t("auth.mockTitle")}>
+      <p className="text-sm text-gray-600 mb-4">{t("auth.mockHint")}</p>
+      <form onSubmit={submit} className="space-y-3">
+        <label className="block text-sm text-gray-700">
+          {t("auth.username")}
+          <Input value={username} onChange={(e) => setUsername(e.target.value)} autoFocus className="mt-1" />
+        </label>
+        <Button type="submit" className="w-full">{t("auth.continue")}</Button>
+      </form>
+    </AuthLayout>
+  );
+}
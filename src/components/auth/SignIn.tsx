@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { useLocation } from "react-router";
+import { LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { auth } from "@/lib/auth";
+import { t } from "@/lib/i18n";
+import { useRedirect } from "@/hooks/useRedirect";
+import AuthLayout from "./AuthLayout";
+
+// Shown in place of the app until someone signs in; they come back to the page they asked for
+export default function SignIn() {
+  const location = useLocation();
+  const redirect = useRedirect();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState("");
+
+  const signIn = async () => {
+    if (!auth) return;
+    setPending(true);
+    setError("");
+    try {
+      redirect(await auth.signIn(`${location.pathname}${location.search}`));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t("errors.unknown"));
+      setPending(false);
+    }
+  };
+
+  return (
+    <AuthLayout title={t("auth.title")}>
+      <p className="text-sm text-gray-600 mb-4">{t("auth.hint")}</p>
+      {error && <p role="alert" className="text-sm text-red-600 mb-4">{error}</p>}
+      <Button
+        onClick={signIn}
+        disabled={pending}
+        className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+      >
+        <LogIn className="w-4 h-4 me-2" aria-hidden="true" />
+        {pending ? t("auth.redirecting") : t("auth.signIn")}
+      </Button>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { X, SlidersHorizontal, RotateCcw, Copy } from "lucide-react";
+import {
+  ANSWER_STYLES, DEFAULT_ANSWER_SETTINGS, TEMPERATURE_RANGE, TOP_K_RANGE, isDefaultSettings, resolveAnswerSettings,
+  type AnswerSettings
+} from "@/lib/answerSettings";
+import { formatNumber, t } from "@/lib/i18n";
+import { useDialog } from "@/hooks/useDialog";
+import { useLocale } from "@/hooks/useLocale";
+import type { Document } from "@/types/chat";
+
+interface AnswerSettingsDrawerProps {
+  // The selected documents; each keeps its own settings
+  documents: Document[];
+  models: string[];
+  onChange: (documentId: string, settings: AnswerSettings) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full rounded-md border border-gray-200 bg-white px-2 py-1.5 text-sm text-gray-700";
+
+// Side drawer for the model and retrieval settings of the selected documents.
+// Changes apply right away and are used from the next question on.
+export default function AnswerSettingsDrawer({ documents, models, onChange, onClose }: AnswerSettingsDrawerProps) {
+  const [documentId, setDocumentId] = useState(documents[0]?.id);
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  useLocale();
+
+  const doc = documents.find(d => d.id === documentId) ?? documents[0];
+  const settings = resolveAnswerSettings(doc?.settings);
+  const update = (patch: Partial<AnswerSettings>) => onChange(doc.id, { ...settings, ...patch });
+  // A model saved earlier stays selectable even if the backend no longer lists it
+  const modelOptions = settings.model && !models.includes(settings.model) ? [settings.model, ...models] : models;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/30" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="answer-settings-title"
+        tabIndex={-1}
+        className="h-full w-full max-w-sm flex flex-col bg-white shadow-xl outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex items-center gap-3">
+          <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg">
+            <SlidersHorizontal className="w-5 h-5 text-white" aria-hidden="true" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h2 id="answer-settings-title" className="font-semibold text-gray-800">{t("answerSettings.title")}</h2>
+            <p className="text-xs text-gray-600">{t("answerSettings.hint")}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} title={t("common.close")} aria-label={t("common.close")} autoFocus>
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </div>
+
+        {doc && (
+          <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm text-gray-700">
+            {documents.length > 1 ? (
+              <label className="block space-y-1">
+                <span className="font-medium">{t("answerSettings.document")}</span>
+                <select value={doc.id} onChange={(e) => setDocumentId(e.target.value)} className={fieldClass}>
+                  {documents.map(d => (
+                    <option key={d.id} value={d.id}>{d.name}</option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <p className="text-xs text-gray-600 truncate" dir="auto" title={doc.name}>{doc.name}</p>
+            )}
+
+            <label className="block space-y-1">
+              <span className="font-medium">{t("answerSettings.model")}</span>
+              <select value={settings.model} onChange={(e) => update({ model: e.target.value })} className={fieldClass}>
+                <option value="">{t("answerSettings.defaultModel")}</option>
+                {modelOptions.map(model => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block space-y-1">
+              <span className="flex items-center justify-between font-medium">
+                {t("answerSettings.temperature")}
+                <output className="tabular-nums font-normal text-gray-600">{formatNumber(settings.temperature)}</output>
+              </span>
+              <input
+                type="range"
+                min={TEMPERATURE_RANGE.min}
+                max={TEMPERATURE_RANGE.max}
+                step={TEMPERATURE_RANGE.step}
+                value={settings.temperature}
+                onChange={(e) => update({ temperature: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+              <span className="block text-xs text-gray-500">{t("answerSettings.temperatureHint")}</span>
+            </label>
+
+            <label className="block space-y-1">
+              <span className="flex items-center justify-between font-medium">
+                {t("answerSettings.topK")}
+                <output className="tabular-nums font-normal text-gray-600">{formatNumber(settings.topK)}</output>
+              </span>
+              <input
+                type="range"
+                min={TOP_K_RANGE.min}
+                max={TOP_K_RANGE.max}
+                step={1}
+                value={settings.topK}
+                onChange={(e) => update({ topK: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+              <span className="block text-xs text-gray-500">{t("answerSettings.topKHint")}</span>
+            </label>
+
+            <fieldset className="space-y-1">
+              <legend className="font-medium mb-1">{t("answerSettings.styleLabel")}</legend>
+              <div className="grid grid-cols-3 gap-1 rounded-lg bg-gray-100 p-1">
+                {ANSWER_STYLES.map(style => (
+                  <label
+                    key={style}
+                    className={`rounded-md px-2 py-1 text-center text-xs cursor-pointer has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-blue-400 ${
+                      settings.style === style ? "bg-white shadow-sm font-medium text-gray-800" : "text-gray-600"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="answer-style"
+                      value={style}
+                      checked={settings.style === style}
+                      onChange={() => update({ style })}
+                      className="sr-only"
+                    />
+                    {t(`answerSettings.style.${style}`)}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <label className="block space-y-1">
+              <span className="font-medium">{t("answerSettings.systemPrompt")}</span>
+              <textarea
+                value={settings.systemPrompt}
+                onChange={(e) => update({ systemPrompt: e.target.value })}
+                placeholder={t("answerSettings.systemPromptPlaceholder")}
+                rows={5}
+                dir="auto"
+                className={`${fieldClass} resize-y`}
+              />
+            </label>
+          </div>
+        )}
+
+        {doc && (
+          <div className="p-4 border-t border-gray-200 flex flex-wrap items-center justify-end gap-2">
+            {documents.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => documents.forEach(d => d.id !== doc.id && onChange(d.id, settings))}
+                className="text-gray-600 me-auto"
+              >
+                <Copy className="w-4 h-4" aria-hidden="true" />
+                {t("answerSettings.applyToAll")}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(doc.id, DEFAULT_ANSWER_SETTINGS)}
+              disabled={isDefaultSettings(settings)}
+              className="text-gray-600"
+            >
+              <RotateCcw className="w-4 h-4" aria-hidden="true" />
+              {t("answerSettings.reset")}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { http, HttpResponse } from "msw";
+import { renderChat, uploadFile } from "@/test/chat";
+import { BACKEND_URL, resetBackend, server } from "@/test/server";
+import { resetChatStore } from "@/store/chatStore";
+
+// The real HTTP client, answered by the fake backend through MSW
+vi.mock("@/lib/api", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/api")>();
+  const { BACKEND_URL } = await import("@/test/server");
+  return { ...actual, api: actual.createHttpClient({ baseUrl: BACKEND_URL }) };
+});
+
+// jsdom has no IndexedDB; every test starts from an empty workspace
+vi.mock("@/lib/storage", async (importOriginal) => ({
+  ...await importOriginal<typeof import("@/lib/storage")>(),
+  loadWorkspace: async () => ({ documents: [], conversations: [], feedback: [] }),
+  saveDocument: async () => {},
+  deleteDocument: async () => {},
+  saveConversation: async () => {},
+  deleteConversation: async () => {},
+  saveFeedback: async () => {},
+  deleteFeedback: async () => {}
+}));
+
+const serverError = (error: string) => () => HttpResponse.json({ error }, { status: 500 });
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => {
+  server.resetHandlers();
+  server.events.removeAllListeners();
+  resetBackend();
+  resetChatStore();
+});
+afterAll(() => server.close());
+
+describe("uploading", () => {
+  it("uploads a document and shows its session", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+
+    await user.click(await uploadFile(user, container));
+
+    expect(await screen.findByText("Session: 1 document, 0 messages")).toBeInTheDocument();
+  });
+
+  it("turns away files the backend's policy doesn't allow without uploading them", async () => {
+    resetBackend({ uploadPolicy: { allowed_types: ["pdf"] } });
+    const createSession = vi.fn();
+    server.events.on("request:start", ({ request }) => {
+      if (request.url.endsWith("/create-session")) createSession();
+    });
+    // The file picker filters by type too; drops and pastes don't
+    const user = userEvent.setup({ applyAccept: false });
+    const { container } = renderChat();
+    await screen.findByText("Connected");
+
+    await user.upload(container.querySelector<HTMLInputElement>("#file-upload")!,
+      new File(["Meeting notes"], "notes.txt", { type: "text/plain" }));
+
+    expect(await screen.findByText(/not allowed here/)).toBeInTheDocument();
+    expect(screen.queryByRole("checkbox", { name: "Select notes.txt" })).not.toBeInTheDocument();
+    expect(createSession).not.toHaveBeenCalled();
+  });
+
+  it("shows the server's error when an upload fails and uploads again on retry", async () => {
+    server.use(http.post(`${BACKEND_URL}/upload-document`, serverError("Embedding service unavailable"), { once: true }));
+    const user = userEvent.setup();
+    const { container } = renderChat();
+
+    await user.upload(container.querySelector<HTMLInputElement>("#file-upload")!,
+      new File(["Meeting notes"], "notes.txt", { type: "text/plain" }));
+
+    const sidebar = screen.getByRole("complementary");
+    expect(await within(sidebar).findByText("Embedding service unavailable")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Retry uploading notes.txt" }));
+
+    await waitFor(() => expect(screen.getByRole("checkbox", { name: "Select notes.txt" })).toBeEnabled());
+    expect(within(sidebar).queryByText("Embedding service unavailable")).not.toBeInTheDocument();
+  });
+});
+
+describe("selecting", () => {
+  it("toggles a document in and out of the selection", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    const checkbox = await uploadFile(user, container);
+
+    await user.click(checkbox);
+    expect(checkbox).toBeChecked();
+    expect(screen.getByRole("textbox", { name: "Question" })).toBeEnabled();
+
+    await user.click(checkbox);
+    expect(checkbox).not.toBeChecked();
+    expect(screen.getByRole("textbox", { name: "Question" })).toBeDisabled();
+    expect(screen.queryByText(/^Session:/)).not.toBeInTheDocument();
+  });
+});
+
+describe("overview", () => {
+  it("summarises a processed document and asks a suggested question", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    await user.click(await uploadFile(user, container));
+
+    const overview = await screen.findByRole("region", { name: "notes.txt" });
+    expect(await within(overview).findByText(/simulated summary of notes\.txt/)).toBeInTheDocument();
+    await user.click(within(overview).getByRole("button", { name: "What are the key points?" }));
+
+    const thread = screen.getByRole("main");
+    expect(await within(thread).findByRole("button", { name: "Show Sources (1)" }, { timeout: 5000 })).toBeInTheDocument();
+    expect(within(thread).getByText(/simulated answer to "What are the key points\?"/)).toBeInTheDocument();
+  });
+
+  it("leaves the summary out when the backend can't summarise", async () => {
+    server.use(http.post(`${BACKEND_URL}/summary`, () => HttpResponse.json({ error: "Not found" }, { status: 404 })));
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    await user.click(await uploadFile(user, container));
+
+    const overview = await screen.findByRole("region", { name: "notes.txt" });
+    await waitFor(() => expect(within(overview).queryByRole("status")).not.toBeInTheDocument());
+    expect(within(overview).queryByText(/simulated summary/)).not.toBeInTheDocument();
+  });
+});
+
+describe("asking", () => {
+  it("streams an answer whose sources can be shown and hidden", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    await user.click(await uploadFile(user, container));
+
+    await user.type(screen.getByRole("textbox", { name: "Question" }), "What was decided?{Enter}");
+
+    const thread = screen.getByRole("main");
+    // Sources arrive once the answer has finished streaming
+    const showSources = await within(thread).findByRole("button", { name: "Show Sources (1)" }, { timeout: 5000 });
+    expect(within(thread).getByText(/simulated answer to "What was decided\?"/)).toBeInTheDocument();
+    await user.click(showSources);
+    expect(within(thread).getByText(/Excerpt from notes\.txt/)).toBeInTheDocument();
+
+    await user.click(within(thread).getByRole("button", { name: "Hide Sources (1)" }));
+    expect(within(thread).queryByText(/Excerpt from notes\.txt/)).not.toBeInTheDocument();
+  });
+
+  it("sends the document's answer settings and records them on the answer", async () => {
+    resetBackend({ models: ["llama3", "mistral"] });
+    const requests: unknown[] = [];
+    server.events.on("request:start", async ({ request }) => {
+      if (request.url.endsWith("/chat/stream")) requests.push(await request.clone().json());
+    });
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    await user.click(await uploadFile(user, container));
+
+    await user.click(screen.getByRole("button", { name: "Answer settings" }));
+    const drawer = screen.getByRole("dialog", { name: "Answer settings" });
+    await user.selectOptions(within(drawer).getByRole("combobox", { name: "Model" }), "mistral");
+    await user.click(within(drawer).getByRole("radio", { name: "Detailed" }));
+    await user.type(within(drawer).getByRole("textbox", { name: "Custom instructions" }), "Quote the minutes.");
+    await user.click(within(drawer).getByRole("button", { name: "Close" }));
+
+    await user.type(screen.getByRole("textbox", { name: "Question" }), "What was decided?{Enter}");
+
+    const thread = screen.getByRole("main");
+    await within(thread).findByRole("button", { name: "Show Sources (1)" }, { timeout: 5000 });
+    expect(requests).toEqual([expect.objectContaining({
+      model: "mistral", temperature: 0.7, top_k: 4, answer_style: "detailed", system_prompt: "Quote the minutes."
+    })]);
+    expect(within(thread).getByRole("img", { name: /^Answered with: mistral · .*Detailed · custom instructions$/ }))
+      .toBeInTheDocument();
+  });
+
+  it("reports a failed answer with the server's error", async () => {
+    server.use(http.post(`${BACKEND_URL}/chat/stream`, serverError("Model overloaded")));
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    await user.click(await uploadFile(user, container));
+
+    await user.type(screen.getByRole("textbox", { name: "Question" }), "What was decided?{Enter}");
+
+    const thread = screen.getByRole("main");
+    expect(await within(thread).findByText(/I encountered an error/)).toBeInTheDocument();
+    expect(within(thread).getByText(/Model overloaded/)).toBeInTheDocument();
+  });
+});
+
+describe("comparing", () => {
+  it("answers a question from both documents in two columns", async () => {
+    const user = userEvent.setup();
+    const { container, router } = renderChat();
+    await uploadFile(user, container, new File(["Contract v1"], "contract-v1.txt", { type: "text/plain" }));
+    await uploadFile(user, container, new File(["Contract v2"], "contract-v2.txt", { type: "text/plain" }));
+
+    await user.click(screen.getByRole("button", { name: "Compare" }));
+    expect(router.state.location.pathname).toMatch(/^\/compare\/[^/]+\/[^/]+$/);
+
+    await user.type(screen.getByRole("textbox", { name: "Question for both documents" }), "What changed?{Enter}");
+
+    for (const name of ["contract-v1.txt", "contract-v2.txt"]) {
+      const column = await screen.findByRole("article", { name });
+      await waitFor(() => expect(column).toHaveAttribute("aria-busy", "false"), { timeout: 5000 });
+      expect(within(column).getByText(/simulated answer to "What changed\?"/)).toBeInTheDocument();
+      expect(within(column).getByRole("list", { name: "Sources" })).toHaveTextContent(`Excerpt from ${name}`);
+    }
+
+    await user.click(screen.getByRole("tab", { name: "Text changes" }));
+    expect(screen.getByText("Text changes need the original PDF file of both documents.")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Leave comparison" }));
+    expect(router.state.location.pathname).toBe("/");
+  });
+});
+
+describe("removing", () => {
+  it("removes a document and ends its session", async () => {
+    const cleared = vi.fn();
+    server.events.on("response:mocked", ({ request, response }) => {
+      if (request.method === "DELETE") cleared(response.status);
+    });
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    await uploadFile(user, container);
+
+    await user.click(screen.getByRole("button", { name: "Remove notes.txt" }));
+
+    expect(screen.queryByRole("checkbox", { name: "Select notes.txt" })).not.toBeInTheDocument();
+    await waitFor(() => expect(cleared).toHaveBeenCalledWith(200));
+    expect(screen.queryByText(/Failed to remove/)).not.toBeInTheDocument();
+  });
+
+  it("puts the document back when the backend can't remove it", async () => {
+    server.use(http.delete(`${BACKEND_URL}/clear-session/:id`, serverError("Database locked")));
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    await uploadFile(user, container);
+
+    await user.click(screen.getByRole("button", { name: "Remove notes.txt" }));
+
+    expect(await screen.findByRole("checkbox", { name: "Select notes.txt" })).toBeInTheDocument();
+    expect(screen.getAllByText("Failed to remove document: Database locked").length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { axeViolations } from "@/test/axe";
+import { renderChat, uploadFile } from "@/test/chat";
+import { api } from "@/lib/api";
+import { setLocale } from "@/lib/i18n";
+import { resetChatStore } from "@/store/chatStore";
+
+// jsdom has no IndexedDB; every test starts from an empty workspace
+vi.mock("@/lib/storage", async (importOriginal) => ({
+  ...await importOriginal<typeof import("@/lib/storage")>(),
+  loadWorkspace: async () => ({ documents: [], conversations: [], feedback: [] }),
+  saveDocument: async () => {},
+  deleteDocument: async () => {},
+  saveConversation: async () => {},
+  deleteConversation: async () => {},
+  saveFeedback: async () => {},
+  deleteFeedback: async () => {}
+}));
+
+afterEach(() => resetChatStore());
+
+describe("ChatApp accessibility", () => {
+  it("has no axe violations when empty", async () => {
+    const { container } = renderChat();
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("opens the file picker from the drop zone with the keyboard", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    const click = vi.spyOn(container.querySelector<HTMLInputElement>("#file-upload")!, "click");
+
+    screen.getByRole("button", { name: "Add documents" }).focus();
+    await user.keyboard("{Enter}");
+    await user.keyboard(" ");
+
+    expect(click).toHaveBeenCalledTimes(2);
+  });
+
+  it("moves focus to an uploaded document and announces when it is ready", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+
+    await uploadFile(user, container);
+
+    expect(document.activeElement).toHaveAccessibleName("notes.txt");
+    expect(screen.getByText("notes.txt is ready.")).toHaveAttribute("aria-live", "polite");
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("keeps focus in the question box and announces the answer", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+    const checkbox = await uploadFile(user, container);
+
+    await user.click(checkbox);
+    expect(checkbox).toHaveAttribute("aria-checked", "true");
+
+    const question = screen.getByRole("textbox", { name: "Question" });
+    await user.type(question, "What was decided?{Enter}");
+
+    expect(question).toHaveFocus();
+    await waitFor(
+      () => expect(container.querySelector("[aria-live=polite]")).toHaveTextContent(/^Answer: This is a simulated answer/),
+      { timeout: 5000 }
+    );
+    expect(screen.getByRole("list", { name: "Messages" }).children).toHaveLength(2);
+    // Citation markers say which source they open, not just its number
+    expect(screen.getByRole("button", { name: "Source 1: notes.txt" })).toHaveTextContent(/^1$/);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
+
+describe("ChatApp languages", () => {
+  afterEach(() => {
+    setLocale("en");
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("switches the interface to Arabic with a right-to-left layout", async () => {
+    const user = userEvent.setup();
+    const { container } = renderChat();
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Interface language" }), "ar");
+
+    expect(document.documentElement).toHaveAttribute("lang", "ar");
+    expect(document.documentElement).toHaveAttribute("dir", "rtl");
+    expect(screen.getByRole("button", { name: "إضافة مستندات" })).toBeInTheDocument();
+    expect(localStorage.getItem("docuchat.locale")).toBe("ar");
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("asks for answers in the chosen language", async () => {
+    const user = userEvent.setup();
+    const chatStream = vi.spyOn(api, "chatStream");
+    const { container } = renderChat();
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Answer language" }), "French");
+    await user.click(await uploadFile(user, container));
+    await user.type(screen.getByRole("textbox", { name: "Question" }), "What was decided?{Enter}");
+
+    await waitFor(() => expect(chatStream).toHaveBeenCalled());
+    expect(chatStream.mock.calls[0][0]).toMatchObject({ question: "What was decided?", language: "fr" });
+  });
+});
+
+describe("ChatApp routes", () => {
+  it("puts the open conversation in the URL and follows back and forward", async () => {
+    const user = userEvent.setup();
+    const { router, container } = renderChat();
+
+    await user.click(await uploadFile(user, container));
+    await user.type(screen.getByRole("textbox", { name: "Question" }), "What was decided?{Enter}");
+
+    await waitFor(() => expect(router.state.location.pathname).toMatch(/^\/doc\/[^/]+\/chat\/[^/]+$/));
+    const thread = screen.getByRole("main");
+    expect(within(thread).getByText("What was decided?")).toBeInTheDocument();
+
+    await act(() => router.navigate(-1));
+    expect(router.state.location.pathname).toMatch(/^\/doc\/[^/]+$/);
+    expect(within(thread).queryByText("What was decided?")).not.toBeInTheDocument();
+
+    await act(() => router.navigate(1));
+    expect(within(thread).getByText("What was decided?")).toBeInTheDocument();
+  });
+
+  it("sends links to unknown conversations home", async () => {
+    const { router } = renderChat("/chat/missing");
+
+    await waitFor(() => expect(router.state.location.pathname).toBe("/"));
+  });
+});
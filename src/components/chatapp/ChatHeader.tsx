@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  MessageCircle, ChevronRight, AlertCircle, Eye, EyeOff, Download, Lock, BarChart3, Search, Keyboard,
+  SlidersHorizontal, GitCompare
+} from "lucide-react";
+import { useChatStore } from "@/store/chatStore";
+import type { Conversation, Document } from "@/types/chat";
+import { t } from "@/lib/i18n";
+
+export type ExportFormat = "md" | "json" | "pdf";
+
+interface ChatHeaderProps {
+  activeConversation?: Conversation;
+  selectedDocs: Document[];
+  viewerDoc?: Document;
+  hasMessages: boolean;
+  // At least two documents are ready to compare
+  canCompare: boolean;
+  onExport: (format: ExportFormat) => void;
+  onCompare: () => void;
+}
+
+// What the chat is about, plus answer settings, search, insights, compare mode, export and the document preview
+export default function ChatHeader({
+  activeConversation, selectedDocs, viewerDoc, hasMessages, canCompare, onExport, onCompare
+}: ChatHeaderProps) {
+  const loading = useChatStore(s => s.loading);
+  const isMobile = useChatStore(s => s.isMobile);
+  const sidebarOpen = useChatStore(s => s.sidebarOpen);
+  const setSidebarOpen = useChatStore(s => s.setSidebarOpen);
+  const setDialog = useChatStore(s => s.setDialog);
+  const setViewer = useChatStore(s => s.setViewer);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const selectedDoc = selectedDocs[0];
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-white/80 backdrop-blur-sm flex items-center justify-between">
+      <div className="flex items-center gap-3">
+        <div className="bg-gradient-to-r from-blue-500 to-purple-600 p-2 rounded-lg" aria-hidden="true">
+          <MessageCircle className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h2 className="font-semibold text-gray-800">{t("chat.heading")}</h2>
+          <p className="text-xs text-gray-600 flex items-center gap-1">
+            {activeConversation?.readOnly ? (
+              <span className="flex items-center gap-1 min-w-0">
+                <Lock className="w-3 h-3 shrink-0" aria-hidden="true" />
+                <span className="truncate max-w-xs">
+                  {t("chat.imported")}{activeConversation.documentNames?.length ? ` · ${activeConversation.documentNames.join(", ")}` : ""}
+                </span>
+              </span>
+            ) : selectedDocs.length > 1 ? (
+              <>{t("chat.using")} <span className="font-medium truncate max-w-xs" title={selectedDocs.map(d => d.name).join(", ")}>
+                {t("chat.documentCount", { count: selectedDocs.length })}
+              </span></>
+            ) : selectedDoc ? (
+              <>{t("chat.using")} <span className="font-medium truncate max-w-xs" dir="auto">{selectedDoc.name}</span></>
+            ) : (
+              <span className="text-orange-600 flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" aria-hidden="true" />
+                {t("chat.selectDocuments")}
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDialog("shortcuts")}
+          className="text-gray-600"
+          title={t("chat.shortcutsTitle")}
+          aria-label={t("shortcuts.title")}
+        >
+          <Keyboard className="w-4 h-4" aria-hidden="true" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDialog("search")}
+          className="text-gray-600"
+          title={t("chat.searchTitle")}
+          aria-label={t("search.title")}
+        >
+          <Search className="w-4 h-4" aria-hidden="true" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDialog("settings")}
+          disabled={!selectedDocs.length}
+          className="text-gray-600"
+          title={t("chat.settingsTitle")}
+          aria-label={t("answerSettings.title")}
+        >
+          <SlidersHorizontal className="w-4 h-4" aria-hidden="true" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDialog("analytics")}
+          className="text-gray-600"
+          title={t("chat.insightsTitle")}
+        >
+          <BarChart3 className="w-4 h-4" aria-hidden="true" />
+          {t("chat.insights")}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onCompare}
+          disabled={!canCompare}
+          className="text-gray-600"
+          title={t("compare.buttonTitle")}
+        >
+          <GitCompare className="w-4 h-4" aria-hidden="true" />
+          {t("compare.button")}
+        </Button>
+        {hasMessages && (
+          <div className="relative">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setExportMenuOpen(!exportMenuOpen)}
+              disabled={loading}
+              className="text-gray-600"
+              aria-haspopup="menu"
+              aria-expanded={exportMenuOpen}
+            >
+              <Download className="w-4 h-4" aria-hidden="true" />
+              {t("export.button")}
+            </Button>
+            {exportMenuOpen && (
+              <>
+                <div className="fixed inset-0 z-20" onClick={() => setExportMenuOpen(false)} />
+                <div
+                  role="menu"
+                  aria-label={t("export.format")}
+                  className="absolute end-0 mt-1 w-44 z-30 rounded-lg border border-gray-200 bg-white shadow-lg py-1"
+                  onKeyDown={(e) => { if (e.key === "Escape") setExportMenuOpen(false); }}
+                >
+                  {([
+                    ["md", t("export.markdown")],
+                    ["json", t("export.json")],
+                    ["pdf", t("export.pdf")]
+                  ] as const).map(([format, label]) => (
+                    <button
+                      key={format}
+                      role="menuitem"
+                      autoFocus={format === "md"}
+                      onClick={() => { setExportMenuOpen(false); onExport(format); }}
+                      className="block w-full px-3 py-1.5 text-start text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+        {(viewerDoc || selectedDoc?.file) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setViewer(viewerDoc || !selectedDoc ? null : { docId: selectedDoc.id })}
+            className="text-gray-600"
+            aria-pressed={!!viewerDoc}
+          >
+            {viewerDoc ? <EyeOff className="w-4 h-4" aria-hidden="true" /> : <Eye className="w-4 h-4" aria-hidden="true" />}
+            {viewerDoc ? t("chat.hidePreview") : t("chat.preview")}
+          </Button>
+        )}
+        {isMobile && sidebarOpen && (
+          <Button variant="ghost" size="sm" onClick={() => setSidebarOpen(false)} aria-label={t("app.closeMenu")}>
+            <ChevronRight className="w-5 h-5 rtl:-scale-x-100" aria-hidden="true" />
+          </Button>
+        )}
+      </div>
+    </div>
+
+  );
+}
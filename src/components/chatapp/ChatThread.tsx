@@ -0,0 +1,481 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import {
+  Upload, Send, Bot, User, FileText, Check, ChevronLeft, ChevronRight, AlertCircle, Loader2, BookOpen, Square,
+  RotateCw, Clock, Pencil, ThumbsUp, ThumbsDown, SlidersHorizontal
+} from "lucide-react";
+import type { FeedbackRating } from "@/lib/api";
+import type { BackendStatus } from "@/hooks/useBackendHealth";
+import { useChatStore } from "@/store/chatStore";
+import type { Conversation, Document, Message, MessageSource } from "@/types/chat";
+import { siblingsOf } from "@/lib/conversationTree";
+import { describeSettings } from "@/lib/answerSettings";
+import { t, formatNumber, formatTime } from "@/lib/i18n";
+import CitedAnswer from "./CitedAnswer";
+import DocumentOverview from "./DocumentOverview";
+
+interface ChatThreadProps {
+  activeConversation?: Conversation;
+  // The branch of the conversation currently shown
+  messages: Message[];
+  selectedDocs: Document[];
+  backendStatus: BackendStatus;
+  inputRef: React.RefObject<HTMLTextAreaElement | null>;
+  // Message to scroll to instead of the bottom on the next render
+  scrollTargetRef: React.RefObject<string | null>;
+  // Returns false when the question couldn't be sent and should stay in the box
+  onSend: (question: string) => boolean;
+  onStop: () => void;
+  onEdit: (message: Message, content: string) => void;
+  onRegenerate: (message: Message) => void;
+  onSwitchBranch: (message: Message, offset: number) => void;
+  onRate: (message: Message, rating: FeedbackRating) => void;
+  onComment: (messageId: string, comment: string) => void;
+  onOpenSource: (source: MessageSource) => void;
+  // Opens the viewer at a page, from a document's table of contents
+  onOpenPage: (doc: Document, page: number) => void;
+}
+
+// The messages of the open conversation and the question box
+export default function ChatThread({
+  activeConversation, messages, selectedDocs, backendStatus, inputRef, scrollTargetRef,
+  onSend, onStop, onEdit, onRegenerate, onSwitchBranch, onRate, onComment, onOpenSource, onOpenPage
+}: ChatThreadProps) {
+  const documents = useChatStore(s => s.documents);
+  const conversations = useChatStore(s => s.conversations);
+  const feedback = useChatStore(s => s.feedback);
+  const loading = useChatStore(s => s.loading);
+  const apiError = useChatStore(s => s.apiError);
+  const showSources = useChatStore(s => s.showSources);
+  const toggleSources = useChatStore(s => s.toggleSources);
+  const editing = useChatStore(s => s.editing);
+  const setEditing = useChatStore(s => s.setEditing);
+  const feedbackDraft = useChatStore(s => s.feedbackDraft);
+  const setFeedbackDraft = useChatStore(s => s.setFeedbackDraft);
+  const notice = useChatStore(s => s.notice);
+  const setNotice = useChatStore(s => s.setNotice);
+  const highlightedMessageId = useChatStore(s => s.highlightedMessageId);
+  const setHighlightedMessageId = useChatStore(s => s.setHighlightedMessageId);
+  const [input, setInput] = useState("");
+  // Position in `previousQuestions` while recalling with the arrow keys
+  const [recallIndex, setRecallIndex] = useState<number | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const feedbackByMessage = useMemo(() => new Map(feedback.map(f => [f.messageId, f])), [feedback]);
+  const selectedDoc = selectedDocs[0];
+
+  // The settings an answer was produced with, one line per document when there were several
+  const settingsSummary = (msg: Message) => {
+    const entries = Object.entries(msg.settings ?? {});
+    if (entries.length === 1) return describeSettings(entries[0][1]);
+    return entries.map(([id, settings]) => {
+      const name = documents.find(d => d.id === id)?.name ?? msg.sources?.find(s => s.documentId === id)?.documentName;
+      return name ? `${name}: ${describeSettings(settings)}` : describeSettings(settings);
+    }).join("\n");
+  };
+
+  useEffect(() => {
+    const behavior = window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ? "auto" : "smooth";
+    const target = scrollTargetRef.current;
+    scrollTargetRef.current = null;
+    if (target) {
+      document.getElementById(`message-${target}`)?.scrollIntoView({ behavior, block: "center" });
+      return;
+    }
+    messagesEndRef.current?.scrollIntoView({ behavior });
+  }, [messages, loading, scrollTargetRef]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(""), 2000);
+    return () => clearTimeout(timer);
+  }, [notice, setNotice]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, setHighlightedMessageId]);
+
+  // Every question asked, newest first and without repeats, for arrow-key recall
+  const previousQuestions = useMemo(() => [...new Set(conversations
+    .flatMap(c => c.messages.filter(m => m.role === "user"))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .map(m => m.content))], [conversations]);
+
+  const recallQuestion = (index: number | null) => {
+    setRecallIndex(index);
+    setInput(index === null ? "" : previousQuestions[index]);
+  };
+
+  // While disconnected the question waits in the outbox until the backend is back
+  const send = () => {
+    if (!onSend(input)) return;
+    setInput("");
+    setRecallIndex(null);
+  };
+
+  return (
+    <>
+      {/* Messages */}
+      <div className="flex-1 overflow-hidden relative">
+        <ScrollArea className="h-full">
+          <div className="p-4 pb-16">
+            {!messages.length && selectedDocs.length > 0 && !activeConversation?.readOnly ? (
+              // A fresh chat about chosen documents starts from what they contain
+              <div className="flex flex-col items-center gap-4 py-8">
+                {selectedDocs.map(doc => (
+                  <DocumentOverview
+                    key={doc.id}
+                    document={doc}
+                    disabled={loading}
+                    onAsk={onSend}
+                    onOpenPage={doc.file ? (page) => onOpenPage(doc, page) : undefined}
+                  />
+                ))}
+              </div>
+            ) : !messages.length ? (
+              <div className="h-full flex flex-col items-center justify-center text-center py-12">
+                <div className="mb-4 p-3 bg-blue-100 rounded-full" aria-hidden="true">
+                  <Bot className="w-10 h-10 text-blue-600" />
+                </div>
+                <h3 className="text-2xl font-bold text-gray-800 mb-2">{t("welcome.title")}</h3>
+                <p className="text-gray-600 max-w-md mb-6">{t("welcome.body")}</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 max-w-lg">
+                  {[
+                    { icon: Upload, title: t("welcome.uploadTitle"), desc: t("welcome.uploadText") },
+                    { icon: FileText, title: t("welcome.selectTitle"), desc: t("welcome.selectText") },
+                    { icon: Send, title: t("welcome.askTitle"), desc: t("welcome.askText") }
+                  ].map(({ icon: Icon, title, desc }) => (
+                    <div key={title} className="bg-white p-4 rounded-lg border shadow-sm">
+                      <Icon className="w-5 h-5 mx-auto text-blue-500 mb-2" aria-hidden="true" />
+                      <h4 className="font-medium text-gray-800 mb-1">{title}</h4>
+                      <p className="text-xs text-gray-600">{desc}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <ol className="space-y-6" aria-label={t("chat.messages")}>
+                  {messages.map((msg) => (
+                    <li
+                      key={msg.id}
+                      id={`message-${msg.id}`}
+                      aria-label={msg.role === "user" ? t("chat.you") : t("chat.assistant")}
+                      className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
+                    >
+                      <div className={`max-w-[75%] rounded-xl p-4 transition-shadow ${
+                        highlightedMessageId === msg.id ? "ring-2 ring-yellow-400 ring-offset-2" : ""
+                      } ${
+                        msg.role === "user"
+                          ? "bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-ee-none"
+                          : "bg-white border border-gray-200 rounded-ss-none shadow-sm"
+                      }`}>
+                        <div className="flex items-start gap-2">
+                          {msg.role === "user" ? 
+                            <User className="w-5 h-5 mt-0.5 text-blue-200" aria-hidden="true" /> : 
+                            <Bot className="w-5 h-5 mt-0.5 text-blue-600" aria-hidden="true" />
+                          }
+                          <div className="flex-1">
+                            {msg.streaming && !msg.content ? (
+                              <div className="flex items-center gap-2">
+                                <Loader2 className="w-4 h-4 motion-safe:animate-spin" aria-hidden="true" />
+                                <span className="text-sm text-gray-600">{t("chat.thinking")}</span>
+                              </div>
+                            ) : msg.role === "bot" ? (
+                              <CitedAnswer
+                                content={msg.content}
+                                sources={msg.sources}
+                                streaming={msg.streaming}
+                                onCite={onOpenSource}
+                              />
+                            ) : editing?.messageId === msg.id ? (
+                              <form
+                                className="space-y-2"
+                                onSubmit={(e) => { e.preventDefault(); onEdit(msg, editing.content); }}
+                              >
+                                <Textarea
+                                  value={editing.content}
+                                  onChange={(e) => setEditing({ messageId: msg.id, content: e.target.value })}
+                                  aria-label={t("chat.editQuestion")}
+                                  dir="auto"
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Escape") setEditing(null);
+                                    if (e.key === "Enter" && !e.shiftKey) {
+                                      e.preventDefault();
+                                      if (!loading) onEdit(msg, editing.content);
+                                    }
+                                  }}
+                                  className="min-h-[60px] bg-white text-gray-800"
+                                  autoFocus
+                                />
+                                <div className="flex justify-end gap-2">
+                                  <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(null)} className="text-white hover:bg-white/20 hover:text-white">
+                                    {t("common.cancel")}
+                                  </Button>
+                                  <Button type="submit" size="sm" variant="secondary" disabled={loading || !editing.content.trim()}>
+                                    {t("common.send")}
+                                  </Button>
+                                </div>
+                              </form>
+                            ) : (
+                              <p className="whitespace-pre-wrap" dir="auto">{msg.content}</p>
+                            )}
+                            {msg.stopped && (
+                              <p className="text-xs text-gray-500 italic mt-1">{t("chat.stopped")}</p>
+                            )}
+
+                            {/* Sources */}
+                            {msg.role === "bot" && msg.sources && msg.sources.length > 0 && (
+                              <div className="mt-3">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => toggleSources(msg.id)}
+                                  className="text-blue-600 hover:text-blue-700 p-0 h-auto font-medium text-sm"
+                                  aria-expanded={!!showSources[msg.id]}
+                                  aria-controls={`sources-${msg.id}`}
+                                >
+                                  <BookOpen className="w-4 h-4 me-1" aria-hidden="true" />
+                                  {t(showSources[msg.id] ? "sources.hide" : "sources.show", { total: msg.sources.length })}
+                                </Button>
+
+                                {showSources[msg.id] && (
+                                  <div id={`sources-${msg.id}`} className="mt-2 space-y-2">
+                                    {msg.sources.map((source, sourceIndex) => (
+                                      <button
+                                        key={sourceIndex}
+                                        onClick={() => onOpenSource(source)}
+                                        className="block w-full text-start bg-gray-50 border border-gray-200 rounded-lg p-3 hover:border-blue-300 hover:bg-blue-50 transition-all"
+                                      >
+                                        <div className="flex items-center justify-between mb-2 gap-2">
+                                          <span className="text-sm font-medium text-gray-700 truncate" dir="auto">
+                                            [{sourceIndex + 1}] {source.documentName}
+                                          </span>
+                                          <span className="text-xs text-gray-500 uppercase whitespace-nowrap">
+                                            {source.page !== undefined && `${t("source.page", { page: source.page + 1 })} • `}{source.type}
+                                          </span>
+                                        </div>
+                                        <p className="text-sm text-gray-600 leading-relaxed" dir="auto">
+                                          {source.content}
+                                        </p>
+                                      </button>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            )}
+
+                            <div className={`text-xs mt-2 flex items-center gap-1 ${msg.role === "user" ? "text-blue-200" : "text-gray-500"}`}>
+                              {msg.pending && <Clock className="w-3 h-3" aria-hidden="true" />}
+                              <time dateTime={msg.timestamp.toISOString()}>
+                                {formatTime(msg.timestamp)}
+                              </time>
+                              {msg.pending && ` · ${t("chat.waiting")}`}
+                              {msg.settings && !msg.streaming && (
+                                <span
+                                  role="img"
+                                  className="flex"
+                                  title={settingsSummary(msg)}
+                                  aria-label={t("answerSettings.usedLabel", { settings: settingsSummary(msg) })}
+                                >
+                                  <SlidersHorizontal className="w-3 h-3" aria-hidden="true" />
+                                </span>
+                              )}
+                              {activeConversation && (() => {
+                                const siblings = siblingsOf(activeConversation, msg);
+                                const index = siblings.indexOf(msg);
+                                const canAct = !loading && !activeConversation.readOnly && !msg.streaming && !msg.pending;
+                                return (
+                                  <span className="ms-auto flex items-center gap-1">
+                                    {siblings.length > 1 && (
+                                      <span className="flex items-center" role="group" aria-label={t("versions.label")}>
+                                        <button
+                                          onClick={() => onSwitchBranch(msg, -1)}
+                                          disabled={loading || index === 0}
+                                          className="p-0.5 rounded disabled:opacity-40"
+                                          title={t("versions.previous")}
+                                          aria-label={t("versions.previous")}
+                                        >
+                                          <ChevronLeft className="w-3 h-3 rtl:-scale-x-100" aria-hidden="true" />
+                                        </button>
+                                        <span className="tabular-nums" aria-label={t("versions.position", { index: index + 1, total: siblings.length })}>
+                                          {formatNumber(index + 1)}/{formatNumber(siblings.length)}
+                                        </span>
+                                        <button
+                                          onClick={() => onSwitchBranch(msg, 1)}
+                                          disabled={loading || index === siblings.length - 1}
+                                          className="p-0.5 rounded disabled:opacity-40"
+                                          title={t("versions.next")}
+                                          aria-label={t("versions.next")}
+                                        >
+                                          <ChevronRight className="w-3 h-3 rtl:-scale-x-100" aria-hidden="true" />
+                                        </button>
+                                      </span>
+                                    )}
+                                    {canAct && msg.role === "user" && editing?.messageId !== msg.id && (
+                                      <button
+                                        onClick={() => setEditing({ messageId: msg.id, content: msg.content })}
+                                        className="p-0.5 rounded hover:text-white"
+                                        title={t("chat.editAndResend")}
+                                        aria-label={t("chat.editAndResend")}
+                                      >
+                                        <Pencil className="w-3 h-3" aria-hidden="true" />
+                                      </button>
+                                    )}
+                                    {canAct && msg.role === "bot" && (
+                                      <button
+                                        onClick={() => onRegenerate(msg)}
+                                        className="p-0.5 rounded hover:text-gray-800"
+                                        title={t("chat.regenerate")}
+                                        aria-label={t("chat.regenerate")}
+                                      >
+                                        <RotateCw className="w-3 h-3" aria-hidden="true" />
+                                      </button>
+                                    )}
+                                    {msg.role === "bot" && !msg.streaming && msg.content && !activeConversation.readOnly && (
+                                      ([["up", ThumbsUp, t("feedback.helpful"), "text-green-600"], ["down", ThumbsDown, t("feedback.notHelpful"), "text-red-600"]] as const)
+                                        .map(([rating, Icon, label, activeClass]) => {
+                                          const active = feedbackByMessage.get(msg.id)?.rating === rating;
+                                          return (
+                                            <button
+                                              key={rating}
+                                              onClick={() => onRate(msg, rating)}
+                                              className={`p-0.5 rounded ${active ? activeClass : "hover:text-gray-800"}`}
+                                              title={active ? t("feedback.removeRating") : label}
+                                              aria-label={label}
+                                              aria-pressed={active}
+                                            >
+                                              <Icon className={`w-3 h-3 ${active ? "fill-current" : ""}`} aria-hidden="true" />
+                                            </button>
+                                          );
+                                        })
+                                    )}
+                                  </span>
+                                );
+                              })()}
+                            </div>
+                            {feedbackDraft?.messageId === msg.id && (
+                              <form
+                                className="mt-2 flex items-center gap-2"
+                                onSubmit={(e) => { e.preventDefault(); onComment(msg.id, feedbackDraft.comment); }}
+                              >
+                                <Input
+                                  value={feedbackDraft.comment}
+                                  onChange={(e) => setFeedbackDraft({ messageId: msg.id, comment: e.target.value })}
+                                  onKeyDown={(e) => { if (e.key === "Escape") setFeedbackDraft(null); }}
+                                  aria-label={t("feedback.comment")}
+                                  placeholder={feedbackByMessage.get(msg.id)?.rating === "down" ? t("feedback.whatWasWrong") : t("feedback.addComment")}
+                                  dir="auto"
+                                  className="h-8 text-sm"
+                                  autoFocus
+                                />
+                                <Button type="submit" size="sm" variant="secondary" className="h-8">{t("common.save")}</Button>
+                                <Button type="button" size="sm" variant="ghost" className="h-8" onClick={() => setFeedbackDraft(null)}>
+                                  {t("common.skip")}
+                                </Button>
+                              </form>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+
+                {apiError && (
+                  <div className="flex justify-center">
+                    <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-lg text-sm max-w-md">
+                      <AlertCircle className="w-4 h-4 inline me-2" aria-hidden="true" />
+                      {apiError}
+                    </div>
+                  </div>
+                )}
+
+                <div ref={messagesEndRef} />
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+
+
+      {/* Input */}
+      <div className="border-t bg-white/80 backdrop-blur-sm p-4">
+        {(backendStatus === "reconnecting" || backendStatus === "offline") && (
+          <p className="mb-2 text-xs text-amber-700 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" aria-hidden="true" />
+            {backendStatus === "offline" ? t("offline.offline") : t("offline.unreachable")} {t("offline.queued")}
+          </p>
+        )}
+        <p role="status" className="mb-2 text-xs text-green-700 flex items-center gap-1 empty:hidden">
+          {notice && <><Check className="w-3 h-3" aria-hidden="true" />{notice}</>}
+        </p>
+        <div className="flex items-end gap-2">
+          <Textarea
+            ref={inputRef}
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setRecallIndex(null);
+            }}
+            placeholder={
+              activeConversation?.readOnly ? t("input.readOnly") :
+              selectedDocs.length > 1 ? t("input.askSeveral") :
+              selectedDoc ? t("input.askOne") : t("input.selectFirst")
+            }
+            className="flex-1 min-h-[60px] max-h-32 resize-none"
+            aria-label={t("input.question")}
+            dir="auto"
+            disabled={!selectedDoc}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                send();
+                return;
+              }
+              // Up and down step through earlier questions, like a shell history
+              const recalling = !input || (recallIndex !== null && !input.includes("\n"));
+              if (e.key === "ArrowUp" && recalling && !e.altKey && (recallIndex ?? -1) + 1 < previousQuestions.length) {
+                e.preventDefault();
+                recallQuestion((recallIndex ?? -1) + 1);
+              } else if (e.key === "ArrowDown" && recallIndex !== null && recalling && !e.altKey) {
+                e.preventDefault();
+                recallQuestion(recallIndex > 0 ? recallIndex - 1 : null);
+              }
+            }}
+          />
+          {loading ? (
+            <Button
+              onClick={onStop}
+              size="icon"
+              variant="outline"
+              className="h-11 w-11"
+              title={t("input.stop")}
+              aria-label={t("input.stop")}
+            >
+              <Square className="w-4 h-4 fill-current" aria-hidden="true" />
+            </Button>
+          ) : (
+            <Button
+              onClick={send}
+              size="icon"
+              className="h-11 w-11 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+              disabled={!input.trim() || !selectedDoc}
+              aria-label={t("input.send")}
+            >
+              <Send className="w-4 h-4" aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-center text-gray-500 mt-2">
+          {t("input.disclaimer")}
+        </p>
+      </div>
+    </>
+  );
+}
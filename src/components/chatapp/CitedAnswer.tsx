@@ -0,0 +1,59 @@
+import type { Source } from "@/lib/api";
+import type { MessageSource } from "@/types/chat";
+import { t } from "@/lib/i18n";
+import MarkdownContent from "./MarkdownContent";
+
+interface CitedAnswerProps<S extends Source> {
+  content: string;
+  sources?: S[];
+  streaming?: boolean;
+  onCite: (source: S) => void;
+}
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+function CitationMarker<S extends Source>({ index, source, onCite }: { index: number; source: S; onCite: (source: S) => void }) {
+  // The number alone tells a screen reader user nothing about where it leads
+  const name = (source as Partial<MessageSource>).documentName || source.source;
+  const label = source.page !== undefined
+    ? t("source.cite", { index, name, page: source.page + 1 })
+    : t("source.citeNoPage", { index, name });
+  return (
+    <button
+      onClick={() => onCite(source)}
+      title={label}
+      aria-label={label}
+      className="inline-flex items-center justify-center min-w-4 h-4 px-1 mx-0.5 align-super text-[10px] font-semibold rounded bg-blue-100 text-blue-700 hover:bg-blue-200 transition-colors"
+    >
+      {index}
+    </button>
+  );
+}
+
+// Markdown answer with [n] markers turned into links to the nth source.
+// Answers whose text carries no markers get one per source appended at the end.
+export default function CitedAnswer<S extends Source>({ content, sources = [], streaming, onCite }: CitedAnswerProps<S>) {
+  const cited = [...content.matchAll(CITATION_PATTERN)].some(match => !!sources[Number(match[1]) - 1]);
+
+  return (
+    <div>
+      <MarkdownContent
+        content={content}
+        citationCount={sources.length}
+        renderCitation={(index) => (
+          <CitationMarker index={index} source={sources[index - 1]} onCite={onCite} />
+        )}
+      />
+      {!cited && !streaming && sources.length > 0 && (
+        <div className="mt-1">
+          {sources.map((source, i) => (
+            <CitationMarker key={i} index={i + 1} source={source} onCite={onCite} />
+          ))}
+        </div>
+      )}
+      {streaming && (
+        <span className="inline-block w-2 h-4 ms-0.5 align-middle bg-blue-500 motion-safe:animate-pulse" aria-hidden="true" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useMemo, useEffect, useRef } from "react";
+import { Command as CommandIcon } from "lucide-react";
+import { COMMANDS, commandLabel, type Bindings, type CommandId } from "@/lib/shortcuts";
+import { t } from "@/lib/i18n";
+import { useDialog } from "@/hooks/useDialog";
+import { useLocale } from "@/hooks/useLocale";
+import ShortcutKeys from "./ShortcutKeys";
+
+interface CommandPaletteProps {
+  bindings: Bindings;
+  // Commands that can't run right now are listed but greyed out
+  isAvailable: (id: CommandId) => boolean;
+  onRun: (id: CommandId) => void;
+  onClose: () => void;
+}
+
+// Every keyboard command, filterable by name and runnable from the keyboard
+export default function CommandPalette({ bindings, isAvailable, onRun, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const { locale } = useLocale();
+
+  // Matched against the labels in the current language
+  const commands = useMemo(() => {
+    const terms = query.toLocaleLowerCase(locale).split(/\s+/).filter(Boolean);
+    return COMMANDS.filter(c => {
+      const label = commandLabel(c.id).toLocaleLowerCase(locale);
+      return c.id !== "command-palette" && terms.every(term => label.includes(term));
+    });
+  }, [query, locale]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const run = (id: CommandId) => {
+    if (!isAvailable(id)) return;
+    onClose();
+    onRun(id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!commands.length) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(i => (i + step + commands.length) % commands.length);
+    } else if (e.key === "Enter" && commands[activeIndex]) {
+      e.preventDefault();
+      run(commands[activeIndex].id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/30 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("commandPalette.title")}
+        tabIndex={-1}
+        className="w-full max-w-lg max-h-[70vh] flex flex-col rounded-xl bg-white shadow-xl overflow-hidden outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-gray-200">
+          <CommandIcon className="w-4 h-4 text-gray-400 shrink-0" aria-hidden="true" />
+          <input
+            role="combobox"
+            aria-label={t("commandPalette.input")}
+            aria-expanded={!!commands.length}
+            aria-controls="command-list"
+            aria-activedescendant={commands[activeIndex] ? `command-${commands[activeIndex].id}` : undefined}
+            aria-autocomplete="list"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t("commandPalette.placeholder")}
+            className="flex-1 py-3 text-sm outline-none bg-transparent"
+            autoFocus
+          />
+        </div>
+
+        {commands.length ? (
+          <ul ref={listRef} id="command-list" role="listbox" aria-label={t("commandPalette.list")} className="flex-1 overflow-y-auto py-1">
+            {commands.map((command, i) => {
+              const available = isAvailable(command.id);
+              const binding = bindings[command.id];
+              return (
+                <li
+                  key={command.id}
+                  id={`command-${command.id}`}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  aria-disabled={!available}
+                  onClick={() => run(command.id)}
+                  onMouseMove={() => setActiveIndex(i)}
+                  className={`px-4 py-2 flex items-center gap-3 text-sm ${
+                    available ? "cursor-pointer" : "text-gray-500"
+                  } ${i === activeIndex ? "bg-blue-50" : ""}`}
+                >
+                  <span className="flex-1">{commandLabel(command.id)}</span>
+                  {binding && <ShortcutKeys binding={binding} />}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p role="status" className="px-4 py-6 text-sm text-center text-gray-500">{t("commandPalette.empty")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
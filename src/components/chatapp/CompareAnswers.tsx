@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, FileText, Loader2, Send, Square } from "lucide-react";
+import { api, isAbortError, type ChatTurn } from "@/lib/api";
+import { resolveAnswerSettings, toChatParameters } from "@/lib/answerSettings";
+import { useChatStore } from "@/store/chatStore";
+import { t } from "@/lib/i18n";
+import type { Document, MessageSource } from "@/types/chat";
+import CitedAnswer from "./CitedAnswer";
+
+interface CompareAnswersProps {
+  // Older version first
+  documents: [Document, Document];
+  onOpenSource: (source: MessageSource) => void;
+}
+
+interface CompareAnswer {
+  content: string;
+  sources: MessageSource[];
+  streaming: boolean;
+  stopped?: boolean;
+  error?: string;
+}
+
+// One question and what each document answered, in the order of `documents`
+interface CompareRound {
+  id: string;
+  question: string;
+  answers: CompareAnswer[];
+}
+
+/**
+ * Asks every question of both documents at once and shows the answers in two
+ * columns, each with its source excerpts. Rounds only live as long as the
+ * comparison is open; follow-ups see the earlier rounds of their own side.
+ */
+export default function CompareAnswers({ documents, onOpenSource }: CompareAnswersProps) {
+  const answerLanguage = useChatStore(s => s.answerLanguage);
+  const [rounds, setRounds] = useState<CompareRound[]>([]);
+  const [input, setInput] = useState("");
+  const [busy, setBusy] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    const behavior = window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ? "auto" : "smooth";
+    endRef.current?.scrollIntoView({ behavior });
+  }, [rounds]);
+
+  const ask = async () => {
+    const question = input.trim();
+    if (!question || busy) return;
+    setInput("");
+
+    const id = crypto.randomUUID();
+    const history = (side: number): ChatTurn[] => rounds
+      .filter(round => !round.answers[side].error && !round.answers[side].stopped)
+      .map(round => ({ question: round.question, answer: round.answers[side].content }));
+    const update = (side: number, patch: (answer: CompareAnswer) => Partial<CompareAnswer>) =>
+      setRounds(prev => prev.map(round => round.id === id
+        ? { ...round, answers: round.answers.map((answer, k) => k === side ? { ...answer, ...patch(answer) } : answer) }
+        : round
+      ));
+
+    setRounds(prev => [...prev, {
+      id, question, answers: documents.map(() => ({ content: "", sources: [], streaming: true }))
+    }]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(true);
+
+    await Promise.all(documents.map(async (doc, side) => {
+      try {
+        const data = await api.chatStream({
+          session_id: doc.sessionId ?? "",
+          question,
+          chat_history: history(side),
+          language: answerLanguage ?? undefined,
+          ...toChatParameters(resolveAnswerSettings(doc.settings))
+        }, {
+          signal: controller.signal,
+          onToken: (token) => update(side, answer => ({ content: answer.content + token }))
+        });
+        update(side, answer => ({
+          content: answer.content || data.answer || t("chat.noResponse"),
+          sources: (data.sources || []).map(source => ({ ...source, documentId: doc.id, documentName: doc.name })),
+          streaming: false
+        }));
+      } catch (error) {
+        if (!isAbortError(error)) console.error(`Compare error for ${doc.name}:`, error);
+        update(side, () => isAbortError(error)
+          ? { streaming: false, stopped: true }
+          : { streaming: false, error: error instanceof Error ? error.message : t("errors.unknown") });
+      }
+    }));
+
+    abortRef.current = null;
+    setBusy(false);
+  };
+
+  return (
+    <>
+      <div className="flex-1 overflow-hidden">
+        <ScrollArea className="h-full">
+          <div className="p-4 pb-16">
+            {!rounds.length ? (
+              <p className="py-12 text-center text-sm text-gray-600">{t("compare.empty")}</p>
+            ) : (
+              <ol className="space-y-8" aria-label={t("chat.messages")}>
+                {rounds.map(round => (
+                  <li key={round.id} className="space-y-3">
+                    <p className="ms-auto w-fit max-w-[75%] rounded-xl rounded-ee-none bg-gradient-to-r from-blue-500 to-indigo-600 px-4 py-2 text-white" dir="auto">
+                      {round.question}
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {round.answers.map((answer, side) => (
+                        <article
+                          key={documents[side].id}
+                          aria-label={documents[side].name}
+                          aria-busy={answer.streaming}
+                          className="min-w-0 rounded-xl border border-gray-200 bg-white p-4 shadow-sm"
+                        >
+                          <h3 className="mb-2 flex items-center gap-1.5 text-xs font-medium text-gray-500 min-w-0">
+                            <FileText className="w-3.5 h-3.5 shrink-0" aria-hidden="true" />
+                            <span className="truncate" dir="auto">{documents[side].name}</span>
+                          </h3>
+                          {answer.error ? (
+                            <p role="alert" className="flex items-start gap-1 text-sm text-red-700">
+                              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" aria-hidden="true" />
+                              {answer.error}
+                            </p>
+                          ) : answer.streaming && !answer.content ? (
+                            <p className="flex items-center gap-2 text-sm text-gray-500">
+                              <Loader2 className="w-4 h-4 motion-safe:animate-spin" aria-hidden="true" />
+                              {t("chat.thinking")}
+                            </p>
+                          ) : (
+                            <div className="text-sm text-gray-800 leading-relaxed" dir="auto">
+                              <CitedAnswer
+                                content={answer.content}
+                                sources={answer.sources}
+                                streaming={answer.streaming}
+                                onCite={onOpenSource}
+                              />
+                              {answer.stopped && <p className="mt-1 text-xs text-gray-500">{t("chat.stopped")}</p>}
+                            </div>
+                          )}
+                          {answer.sources.length > 0 && (
+                            <ul className="mt-3 space-y-2 border-t border-gray-100 pt-3" aria-label={t("compare.sources")}>
+                              {answer.sources.map((source, i) => (
+                                <li key={i}>
+                                  <button
+                                    onClick={() => onOpenSource(source)}
+                                    className="block w-full rounded-lg border border-gray-200 bg-gray-50 p-2 text-start hover:border-blue-300 hover:bg-blue-50"
+                                  >
+                                    <span className="block text-xs font-medium text-gray-600">
+                                      [{i + 1}]{source.page !== undefined && ` ${t("source.page", { page: source.page + 1 })}`}
+                                    </span>
+                                    <span className="block text-xs text-gray-600 line-clamp-3" dir="auto">{source.content}</span>
+                                  </button>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </article>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <div ref={endRef} />
+          </div>
+        </ScrollArea>
+      </div>
+
+      <div className="border-t bg-white/80 backdrop-blur-sm p-4">
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t("compare.placeholder")}
+            className="flex-1 min-h-[60px] max-h-32 resize-none"
+            aria-label={t("compare.question")}
+            dir="auto"
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                ask();
+              }
+            }}
+          />
+          {busy ? (
+            <Button
+              onClick={() => abortRef.current?.abort()}
+              size="icon"
+              variant="outline"
+              className="h-11 w-11"
+              title={t("input.stop")}
+              aria-label={t("input.stop")}
+            >
+              <Square className="w-4 h-4 fill-current" aria-hidden="true" />
+            </Button>
+          ) : (
+            <Button
+              onClick={ask}
+              size="icon"
+              className="h-11 w-11 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+              disabled={!input.trim()}
+              aria-label={t("input.send")}
+            >
+              <Send className="w-4 h-4" aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftRight, GitCompare, X } from "lucide-react";
+import { t } from "@/lib/i18n";
+import type { Document, MessageSource } from "@/types/chat";
+import CompareAnswers from "./CompareAnswers";
+import TextChanges from "./TextChanges";
+
+type CompareTab = "answers" | "changes";
+
+interface ComparePanelProps {
+  left: Document;
+  right: Document;
+  // Documents either side can switch to
+  candidates: Document[];
+  passwordFor: (documentId: string) => string | undefined;
+  onChange: (left: Document, right: Document) => void;
+  onClose: () => void;
+  onOpenSource: (source: MessageSource) => void;
+}
+
+const selectClass = "min-w-0 flex-1 rounded-md border border-gray-200 bg-white px-1.5 py-1 text-sm text-gray-700";
+
+// Compare mode: two documents, questions answered by both, and what changed in the text
+export default function ComparePanel({
+  left, right, candidates, passwordFor, onChange, onClose, onOpenSource
+}: ComparePanelProps) {
+  const [tab, setTab] = useState<CompareTab>("answers");
+  // The diff is only worked out once it is first asked for
+  const [diffOpened, setDiffOpened] = useState(false);
+  const documents: [Document, Document] = [left, right];
+  const tabs: [CompareTab, string][] = [["answers", t("compare.answersTab")], ["changes", t("compare.changesTab")]];
+
+  const pick = (side: 0 | 1, id: string) => {
+    const doc = candidates.find(d => d.id === id);
+    if (!doc) return;
+    // Choosing the other side's document swaps the two
+    const other = documents[1 - side];
+    const next: [Document, Document] = side === 0
+      ? [doc, doc.id === other.id ? left : right]
+      : [doc.id === other.id ? right : left, doc];
+    onChange(...next);
+  };
+
+  return (
+    <>
+      <div className="p-4 border-b border-gray-200 bg-white/80 backdrop-blur-sm space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="bg-gradient-to-r from-blue-500 to-purple-600 p-2 rounded-lg" aria-hidden="true">
+            <GitCompare className="w-5 h-5 text-white" />
+          </div>
+          <h2 className="flex-1 font-semibold text-gray-800">{t("compare.title")}</h2>
+          <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-600" title={t("compare.close")} aria-label={t("compare.close")}>
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={left.id} onChange={(e) => pick(0, e.target.value)} aria-label={t("compare.original")} className={selectClass}>
+            {candidates.map(doc => <option key={doc.id} value={doc.id}>{doc.name}</option>)}
+          </select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(right, left)}
+            className="text-gray-600"
+            title={t("compare.swap")}
+            aria-label={t("compare.swap")}
+          >
+            <ArrowLeftRight className="w-4 h-4" aria-hidden="true" />
+          </Button>
+          <select value={right.id} onChange={(e) => pick(1, e.target.value)} aria-label={t("compare.revised")} className={selectClass}>
+            {candidates.map(doc => <option key={doc.id} value={doc.id}>{doc.name}</option>)}
+          </select>
+        </div>
+        <div role="tablist" aria-label={t("compare.title")} className="flex gap-1">
+          {tabs.map(([id, label]) => (
+            <button
+              key={id}
+              id={`compare-tab-${id}`}
+              role="tab"
+              aria-selected={tab === id}
+              aria-controls={`compare-panel-${id}`}
+              onClick={() => {
+                setTab(id);
+                if (id === "changes") setDiffOpened(true);
+              }}
+              className={`rounded-md px-3 py-1 text-sm ${tab === id ? "bg-blue-100 text-blue-800 font-medium" : "text-gray-600 hover:bg-gray-100"}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Panels stay mounted once opened, so answers in flight and a finished diff survive switching tabs */}
+      {tabs.map(([id]) => (
+        <div
+          key={id}
+          id={`compare-panel-${id}`}
+          role="tabpanel"
+          aria-labelledby={`compare-tab-${id}`}
+          hidden={tab !== id}
+          className="flex-1 flex flex-col overflow-hidden"
+        >
+          {id === "answers"
+            ? <CompareAnswers documents={documents} onOpenSource={onOpenSource} />
+            : diffOpened && <TextChanges documents={documents} passwordFor={passwordFor} />}
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,92 @@
+import { FileText, Loader2, MessageCircleQuestion, ListTree } from "lucide-react";
+import { suggestedQuestions } from "@/lib/documentOverview";
+import { formatNumber, t } from "@/lib/i18n";
+import type { Document } from "@/types/chat";
+
+interface DocumentOverviewProps {
+  document: Document;
+  disabled: boolean;
+  onAsk: (question: string) => void;
+  // Unset when the original file isn't kept for the viewer
+  onOpenPage?: (page: number) => void;
+}
+
+// What a document is about, shown in an empty chat: its summary, starter
+// questions and the table of contents from the PDF outline
+export default function DocumentOverview({ document: doc, disabled, onAsk, onOpenPage }: DocumentOverviewProps) {
+  const questions = suggestedQuestions(doc);
+  const outline = doc.inspection?.outline ?? [];
+  const headingId = `overview-${doc.id}`;
+
+  return (
+    <section aria-labelledby={headingId} className="w-full max-w-2xl bg-white rounded-lg border shadow-sm p-4 text-start space-y-3">
+      <h3 id={headingId} className="flex items-center gap-2 font-semibold text-gray-800 min-w-0">
+        <FileText className="w-4 h-4 shrink-0 text-blue-500" aria-hidden="true" />
+        <span className="truncate" dir="auto">{doc.name}</span>
+      </h3>
+
+      {doc.summarizing ? (
+        <p role="status" className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 motion-safe:animate-spin" aria-hidden="true" />
+          {t("overview.summarizing")}
+        </p>
+      ) : doc.summary?.text && (
+        <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap" dir="auto">{doc.summary.text}</p>
+      )}
+
+      {questions.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{t("overview.suggestions")}</h4>
+          <ul className="flex flex-wrap gap-2">
+            {questions.map(question => (
+              <li key={question}>
+                <button
+                  onClick={() => onAsk(question)}
+                  disabled={disabled}
+                  className="flex items-center gap-1.5 rounded-full border border-blue-200 bg-blue-50 px-3 py-1 text-sm text-blue-700 text-start hover:bg-blue-100 disabled:opacity-50"
+                >
+                  <MessageCircleQuestion className="w-3.5 h-3.5 shrink-0" aria-hidden="true" />
+                  <span dir="auto">{question}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {outline.length > 0 && (
+        <details>
+          <summary className="flex items-center gap-1.5 cursor-pointer text-xs font-medium text-gray-500 uppercase tracking-wide">
+            <ListTree className="w-3.5 h-3.5" aria-hidden="true" />
+            {t("overview.contents", { count: outline.length })}
+          </summary>
+          <ol className="mt-2 max-h-64 overflow-y-auto space-y-0.5 text-sm">
+            {outline.map(({ title, level, page }, i) => {
+              const label = (
+                <>
+                  <span className="flex-1 truncate" dir="auto">{title}</span>
+                  {page && <span className="text-xs text-gray-500 tabular-nums">{formatNumber(page)}</span>}
+                </>
+              );
+              return (
+                <li key={i} style={{ paddingInlineStart: `${level * 0.75}rem` }}>
+                  {page && onOpenPage ? (
+                    <button
+                      onClick={() => onOpenPage(page)}
+                      className="flex w-full items-center gap-2 rounded px-1 py-0.5 text-start text-gray-700 hover:bg-gray-50"
+                      title={t("overview.openPage", { page })}
+                    >
+                      {label}
+                    </button>
+                  ) : (
+                    <span className="flex items-center gap-2 px-1 py-0.5 text-gray-700">{label}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </details>
+      )}
+    </section>
+  );
+}
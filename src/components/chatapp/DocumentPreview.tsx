@@ -0,0 +1,89 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { X, Loader2, AlertCircle } from "lucide-react";
+import type { DocumentType, PreviewContent } from "@/lib/documentTypes";
+import { t } from "@/lib/i18n";
+import MarkdownContent from "./MarkdownContent";
+
+interface DocumentPreviewProps {
+  file: File;
+  name: string;
+  type: DocumentType;
+  onClose: () => void;
+}
+
+// Uploaded HTML runs in a sandbox with scripts, forms and same-origin access all disabled
+const frameDocument = (html: string) => `<!doctype html><html><head><meta charset="utf-8"><style>
+  body { font: 14px/1.6 system-ui, sans-serif; color: #1f2937; margin: 0; padding: 24px; }
+  img { max-width: 100%; } table { border-collapse: collapse; } td, th { border: 1px solid #e5e7eb; padding: 4px 8px; }
+</style></head><body>${html}</body></html>`;
+
+// Preview for every non-PDF format in the document type registry
+export default function DocumentPreview({ file, name, type, onClose }: DocumentPreviewProps) {
+  const [preview, setPreview] = useState<PreviewContent | null>(null);
+  const [error, setError] = useState("");
+  const Icon = type.icon;
+
+  useEffect(() => {
+    if (type.preview === "pdf") return;
+    let cancelled = false;
+    setPreview(null);
+    setError("");
+
+    type.preview(file)
+      .then(content => { if (!cancelled) setPreview(content); })
+      .catch(err => {
+        console.error(`Failed to preview ${name}:`, err);
+        if (!cancelled) setError(err instanceof Error ? err.message : t("viewer.openDocumentFailed"));
+      });
+
+    return () => { cancelled = true; };
+  }, [file, name, type]);
+
+  return (
+    <div className="h-full flex flex-col bg-gray-100">
+      {/* Toolbar */}
+      <div className="p-2 border-b border-gray-200 bg-white/80 backdrop-blur-sm flex items-center gap-2">
+        <Icon className={`w-4 h-4 ms-2 shrink-0 ${type.iconClassName}`} aria-hidden="true" />
+        <p className="flex-1 min-w-0 text-sm font-medium text-gray-800 truncate" dir="auto">{name}</p>
+        <span className="text-xs text-gray-500">{type.label}</span>
+        <Button variant="ghost" size="sm" onClick={onClose} title={t("viewer.close")} aria-label={t("viewer.close")}>
+          <X className="w-4 h-4" aria-hidden="true" />
+        </Button>
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 flex overflow-hidden">
+        {error ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center p-6 text-red-600">
+            <AlertCircle className="w-8 h-8 mb-2" aria-hidden="true" />
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : !preview ? (
+          <div className="flex-1 flex items-center justify-center gap-2 text-gray-600">
+            <Loader2 className="w-5 h-5 animate-spin" aria-hidden="true" />
+            <span className="text-sm">{t("viewer.loading")}</span>
+          </div>
+        ) : preview.format === "html" ? (
+          <iframe
+            title={name}
+            sandbox=""
+            srcDoc={frameDocument(preview.content)}
+            className="flex-1 m-4 bg-white shadow-md border-0"
+          />
+        ) : (
+          <ScrollArea className="flex-1">
+            <div className="m-4 p-6 bg-white shadow-md" dir="auto">
+              {preview.format === "markdown" ? (
+                <MarkdownContent content={preview.content} />
+              ) : (
+                <pre className="whitespace-pre-wrap break-words text-sm text-gray-800 font-mono" dir="auto">{preview.content}</pre>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+}
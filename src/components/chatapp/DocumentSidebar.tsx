@@ -0,0 +1,497 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Input } from "@/components/ui/input";
+import {
+  Upload, Sparkles, FileText, Trash2, Plus, Check, ChevronLeft, ChevronRight,
+  MessagesSquare, RotateCw, X, FileUp, Lock, LogOut, UserRound
+} from "lucide-react";
+import type { BackendStatus } from "@/hooks/useBackendHealth";
+import { useLocale } from "@/hooks/useLocale";
+import { useAuth } from "@/hooks/useAuth";
+import { useChatStore } from "@/store/chatStore";
+import type { Conversation, Document } from "@/types/chat";
+import { acceptedFileTypes, getDocumentType } from "@/lib/documentTypes";
+import { describePolicy, type UploadPolicy } from "@/lib/uploadPolicy";
+import { inspectionWarning } from "@/lib/pdfInspect";
+import { t, formatBytes, formatPercent } from "@/lib/i18n";
+import SettingsPanel from "./SettingsPanel";
+
+interface DocumentSidebarProps {
+  backendStatus: BackendStatus;
+  uploadPolicy: UploadPolicy;
+  activeConversationId: string | null;
+  uploadInputRef: React.RefObject<HTMLInputElement | null>;
+  documentNames: (conversation: Conversation) => string[];
+  onRetryConnection: () => void;
+  onUpload: (files: FileList | null) => void;
+  onUnlock: (doc: Document, password: string) => void;
+  onConfirmUpload: (doc: Document) => void;
+  onRetryUpload: (doc: Document) => void;
+  onCancelUpload: (id: string) => void;
+  onRemoveDocument: (id: string, sessionId?: string) => void;
+  onToggleSelection: (id: string) => void;
+  onToggleSelectAll: () => void;
+  onOpenConversation: (conversation: Conversation) => void;
+  onNewConversation: () => void;
+  onRemoveConversation: (id: string) => void;
+  onImport: (files: FileList | null) => void;
+  onSignOut: () => void;
+}
+
+const DocumentIcon = ({ type }: { type?: string }) => {
+  const { icon: Icon, iconClassName, label } = getDocumentType(type);
+  return <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${iconClassName}`} aria-label={label} />;
+};
+
+// Connection status, uploads, the document list and saved conversations
+export default function DocumentSidebar({
+  backendStatus, uploadPolicy, activeConversationId, uploadInputRef, documentNames, onRetryConnection, onUpload,
+  onUnlock, onConfirmUpload, onRetryUpload, onCancelUpload, onRemoveDocument, onToggleSelection, onToggleSelectAll,
+  onOpenConversation, onNewConversation, onRemoveConversation, onImport, onSignOut
+}: DocumentSidebarProps) {
+  const documents = useChatStore(s => s.documents);
+  const conversations = useChatStore(s => s.conversations);
+  const rejections = useChatStore(s => s.rejections);
+  const setRejections = useChatStore(s => s.setRejections);
+  const sessionInfo = useChatStore(s => s.sessionInfo);
+  const { session } = useAuth();
+  const isMobile = useChatStore(s => s.isMobile);
+  const sidebarOpen = useChatStore(s => s.sidebarOpen);
+  const setSidebarOpen = useChatStore(s => s.setSidebarOpen);
+  const [dragOver, setDragOver] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { dir } = useLocale();
+
+  return (
+    <aside
+      id="sidebar"
+      aria-label={t("app.sidebar")}
+      className={`${isMobile ? 'w-full border-t' : 'w-80 min-w-80'} bg-white/80 backdrop-blur-sm border-e border-gray-200 flex flex-col relative z-10`}
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg" aria-hidden="true">
+              <Sparkles className="w-5 h-5 text-white" />
+            </div>
+            <h1 className="text-xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              {t("app.name")}
+            </h1>
+          </div>
+          {!isMobile && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSidebarOpen(!sidebarOpen)}
+              aria-label={sidebarOpen ? t("app.collapseSidebar") : t("app.expandSidebar")}
+            >
+              {sidebarOpen === (dir === "ltr")
+                ? <ChevronLeft className="w-5 h-5" aria-hidden="true" />
+                : <ChevronRight className="w-5 h-5" aria-hidden="true" />}
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-2">{t("app.tagline")}</p>
+        <div className="mt-3 flex items-center gap-2 text-sm">
+          <div aria-hidden="true" className={`w-2 h-2 rounded-full ${
+            backendStatus === "healthy" ? "bg-green-500 motion-safe:animate-pulse" : 
+            backendStatus === "offline" ? "bg-red-500" : "bg-yellow-500 motion-safe:animate-pulse"
+          }`}></div>
+          <span role="status" className="text-gray-600">
+            {backendStatus === "healthy" ? t("status.connected") :
+             backendStatus === "offline" ? t("status.offline") :
+             backendStatus === "reconnecting" ? t("status.reconnecting") : t("status.connecting")}
+          </span>
+          {(backendStatus === "reconnecting" || backendStatus === "offline") && (
+            <Button variant="ghost" size="sm" onClick={onRetryConnection} className="h-auto p-1 text-xs text-blue-600 hover:text-blue-700">
+              {t("status.retry")}
+            </Button>
+          )}
+        </div>
+        <SettingsPanel />
+        {session && (
+          <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+            <UserRound className="w-4 h-4 shrink-0" aria-hidden="true" />
+            <span className="min-w-0 flex-1 truncate" title={session.user.email}>
+              {t("auth.signedInAs", { name: session.user.name })}
+            </span>
+            <Button variant="ghost" size="sm" onClick={onSignOut} className="h-auto p-1 text-xs">
+              <LogOut className="w-3.5 h-3.5 me-1" aria-hidden="true" />
+              {t("auth.signOut")}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Upload */}
+      <div className="p-4 border-b border-gray-200">
+        <Input
+          ref={uploadInputRef}
+          type="file" accept={acceptedFileTypes(uploadPolicy.allowedTypes ?? undefined)} multiple
+          onChange={(e) => onUpload(e.target.files)}
+          className="hidden" id="file-upload" tabIndex={-1} aria-hidden="true"
+        />
+        <div
+          role="button"
+          tabIndex={0}
+          aria-label={t("upload.add")}
+          aria-describedby="upload-policy"
+          className={`border-2 border-dashed rounded-xl p-4 text-center transition-all cursor-pointer outline-none focus-visible:ring-[3px] focus-visible:ring-blue-500/50 ${
+            dragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+          }`}
+          onClick={() => uploadInputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.target !== e.currentTarget || (e.key !== "Enter" && e.key !== " ")) return;
+            e.preventDefault();
+            uploadInputRef.current?.click();
+          }}
+          onDrop={(e) => { e.preventDefault(); setDragOver(false); onUpload(e.dataTransfer.files); }}
+          onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+          onDragLeave={(e) => { e.preventDefault(); setDragOver(false); }}
+        >
+          <div className="flex flex-col items-center gap-3">
+            <div className="p-3 bg-blue-100 rounded-full" aria-hidden="true">
+              <Plus className="w-6 h-6 text-blue-500" />
+            </div>
+            {/* The whole drop zone is the button; this only looks like one */}
+            <span className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all transform motion-safe:hover:scale-105">
+              <Upload className="w-4 h-4" aria-hidden="true" />
+              {t("upload.addButton")}
+            </span>
+            <p id="upload-policy" className="text-xs text-gray-600">
+              {t("upload.hint")} {describePolicy(uploadPolicy)}
+            </p>
+          </div>
+        </div>
+
+        {rejections.length > 0 && (
+          <div className="mt-3 space-y-2" role="alert">
+            {rejections.map((rejection) => (
+              <div key={rejection.id} className="p-2 rounded-lg border border-red-200 bg-red-50">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-xs font-medium text-red-700 truncate" dir="auto">{rejection.fileName}</p>
+                  <button
+                    onClick={() => setRejections(prev => prev.filter(r => r.id !== rejection.id))}
+                    className="text-red-500 hover:text-red-700"
+                    title={t("upload.dismiss")}
+                    aria-label={t("upload.dismissAbout", { name: rejection.fileName })}
+                  >
+                    <X className="w-3 h-3" aria-hidden="true" />
+                  </button>
+                </div>
+                <ul className="mt-1 ms-4 list-disc space-y-0.5 text-xs text-red-600">
+                  {rejection.violations.map((violation) => (
+                    <li key={violation.code}>{violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Documents */}
+      <div className="flex-1 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 id="documents-heading" tabIndex={-1} className="font-semibold text-gray-800 outline-none">{t("documents.heading", { total: documents.length })}</h2>
+          {documents.some(d => d.uploaded && !d.error) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onToggleSelectAll}
+              className="h-auto p-1 text-xs text-blue-600 hover:text-blue-700"
+            >
+              {documents.filter(d => d.uploaded && !d.error).every(d => d.selected) ? t("documents.clearSelection") : t("documents.selectAll")}
+            </Button>
+          )}
+        </div>
+        
+        <ScrollArea className="flex-1 p-4">
+          {!documents.length ? (
+            <div className="text-center py-8 text-gray-500">
+              <FileText className="w-12 h-12 mx-auto mb-3 text-gray-300" aria-hidden="true" />
+              <p className="text-sm">{t("documents.empty")}</p>
+            </div>
+          ) : (
+            <ul className="space-y-3" aria-labelledby="documents-heading">
+              {documents.map((doc) => (
+                <li
+                  key={doc.id}
+                  id={`document-${doc.id}`}
+                  tabIndex={-1}
+                  aria-label={doc.name}
+                  aria-busy={!!doc.phase}
+                  className={`p-3 rounded-lg border transition-all outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${
+                    doc.selected ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-white hover:border-gray-300'
+                  } ${doc.error ? 'border-red-200 bg-red-50' : ''}`}
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <div className="flex items-start gap-2 flex-1 min-w-0">
+                      <button
+                        onClick={() => onToggleSelection(doc.id)}
+                        disabled={!doc.uploaded || !!doc.error}
+                        role="checkbox"
+                        aria-checked={!!(doc.selected && doc.uploaded && !doc.error)}
+                        aria-label={t("documents.select", { name: doc.name })}
+                        className={`mt-0.5 w-4 h-4 rounded border-2 flex items-center justify-center transition-all ${
+                          doc.selected && doc.uploaded && !doc.error
+                            ? 'bg-blue-500 border-blue-500'
+                            : 'border-gray-300 hover:border-blue-400'
+                        } ${!doc.uploaded || doc.error ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                      >
+                        {doc.selected && doc.uploaded && !doc.error && <Check className="w-3 h-3 text-white" aria-hidden="true" />}
+                      </button>
+                      <DocumentIcon type={doc.type} />
+                      <div className="flex-1 min-w-0">
+                        <p className={`font-medium text-sm truncate ${doc.error ? 'text-red-700' : 'text-gray-800'}`} dir="auto">
+                          {doc.name}
+                        </p>
+                        {doc.size > 0 && !doc.error && (
+                          <p className="text-xs text-gray-500 flex items-center gap-1">
+                            {doc.inspection?.encrypted && <Lock className="w-3 h-3" role="img" aria-label={t("documents.encrypted")} />}
+                            {formatBytes(doc.size, 2)}
+                            {doc.inspection && ` · ${t("documents.pages", { count: doc.inspection.pageCount })}`}
+                          </p>
+                        )}
+                        {(doc.inspection?.title || doc.inspection?.author) && (
+                          <p className="text-xs text-gray-500 truncate" dir="auto" title={[doc.inspection.title, doc.inspection.author].filter(Boolean).join(" — ")}>
+                            {[doc.inspection.title, doc.inspection.author].filter(Boolean).join(" — ")}
+                          </p>
+                        )}
+                        {doc.inspection && !doc.awaiting && inspectionWarning(doc.inspection)?.level === "warn" && (
+                          <p className="text-xs text-amber-700 mt-1">{inspectionWarning(doc.inspection)?.message}</p>
+                        )}
+                        {doc.error && <p role="alert" className="text-xs text-red-600 mt-1">{doc.error}</p>}
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      {doc.error && doc.file && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onRetryUpload(doc)}
+                          className="p-1 h-auto text-gray-500 hover:text-gray-700"
+                          title={t("documents.retry")}
+                          aria-label={t("documents.retryName", { name: doc.name })}
+                        >
+                          <RotateCw className="w-3 h-3" aria-hidden="true" />
+                        </Button>
+                      )}
+                      {doc.phase ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onCancelUpload(doc.id)}
+                          className="p-1 h-auto text-gray-500 hover:text-gray-700"
+                          title={t("documents.cancel")}
+                          aria-label={t("documents.cancelName", { name: doc.name })}
+                        >
+                          <X className="w-3 h-3" aria-hidden="true" />
+                        </Button>
+                      ) : (
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          onClick={() => onRemoveDocument(doc.id, doc.sessionId)} 
+                          className="p-1 h-auto text-gray-500 hover:text-gray-700"
+                          title={t("documents.remove")}
+                          aria-label={t("documents.removeName", { name: doc.name })}
+                        >
+                          <Trash2 className="w-3 h-3" aria-hidden="true" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {doc.phase && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span id={`document-${doc.id}-phase`}>
+                          {t(`documents.phase.${doc.phase}`)}
+                        </span>
+                        {doc.phase === "uploading" && (
+                          <span>
+                            {formatBytes(doc.size * doc.progress / 100)} / {formatBytes(doc.size)} · {formatPercent(doc.progress)}
+                          </span>
+                        )}
+                      </div>
+                      <div
+                        className="w-full bg-gray-200 rounded-full h-1.5"
+                        role="progressbar"
+                        aria-labelledby={`document-${doc.id}-phase`}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={doc.phase === "uploading" || doc.phase === "processing" ? doc.progress : undefined}
+                      >
+                        <div
+                          className={`bg-gradient-to-r from-blue-500 to-purple-600 h-1.5 rounded-full transition-all ${
+                            doc.phase === "processing" ? 'motion-safe:animate-pulse' : ''
+                          }`}
+                          style={{ width: `${doc.phase === "uploading" || doc.phase === "processing" ? doc.progress : 0}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  )}
+
+                  {(doc.awaiting === "password" || doc.awaiting === "wrong-password") && (
+                    <form
+                      className="space-y-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const password = new FormData(e.currentTarget).get("password");
+                        if (typeof password === "string" && password) onUnlock(doc, password);
+                      }}
+                    >
+                      <p id={`document-${doc.id}-password`} className="text-xs text-amber-700 flex items-center gap-1">
+                        <Lock className="w-3 h-3" aria-hidden="true" />
+                        {doc.awaiting === "wrong-password" ? t("documents.wrongPassword") : t("documents.passwordProtected")}
+                      </p>
+                      <div className="flex gap-2">
+                        <Input
+                          name="password"
+                          type="password"
+                          placeholder={t("documents.password")}
+                          className="h-7 text-xs"
+                          autoComplete="off"
+                          aria-label={t("documents.passwordFor", { name: doc.name })}
+                          aria-describedby={`document-${doc.id}-password`}
+                          aria-invalid={doc.awaiting === "wrong-password"}
+                        />
+                        <Button type="submit" size="sm" className="h-7 text-xs">{t("documents.unlock")}</Button>
+                      </div>
+                    </form>
+                  )}
+
+                  {doc.awaiting === "confirmation" && doc.inspection && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-amber-700">{inspectionWarning(doc.inspection)?.message}</p>
+                      <Button variant="outline" size="sm" onClick={() => onConfirmUpload(doc)} className="h-7 text-xs">
+                        {t("documents.uploadAnyway")}
+                      </Button>
+                    </div>
+                  )}
+
+                  {doc.uploaded && !doc.error && (
+                    <div className="flex items-center gap-2 text-green-600 mt-2">
+                      <div className="w-1.5 h-1.5 bg-green-500 rounded-full motion-safe:animate-pulse" aria-hidden="true"></div>
+                      <span className="text-xs font-medium">{t("documents.readyBadge")}</span>
+                      {doc.summarizing && (
+                        <span className="text-xs text-gray-500">· {t("overview.summarizing")}</span>
+                      )}
+                    </div>
+                  )}
+                  {doc.uploaded && !doc.error && doc.summary?.text && (
+                    <p className="mt-1 text-xs text-gray-600 line-clamp-3" dir="auto" title={doc.summary.text}>
+                      {doc.summary.text}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </div>
+
+      {/* Conversations */}
+      <div className="border-t border-gray-200">
+        <div className="p-4 pb-2 flex justify-between items-center">
+          <h2 id="conversations-heading" tabIndex={-1} className="font-semibold text-gray-800 outline-none">{t("conversations.heading", { total: conversations.length })}</h2>
+          <div className="flex items-center gap-1">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              tabIndex={-1}
+              aria-hidden="true"
+              onChange={(e) => {
+                onImport(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => importInputRef.current?.click()}
+              className="h-auto p-1 text-xs text-gray-600 hover:text-gray-800"
+              title={t("conversations.importTitle")}
+            >
+              <FileUp className="w-3 h-3" aria-hidden="true" />
+              {t("conversations.import")}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onNewConversation}
+              disabled={!activeConversationId}
+              className="h-auto p-1 text-xs text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-3 h-3" aria-hidden="true" />
+              {t("conversations.new")}
+            </Button>
+          </div>
+        </div>
+        <div className="max-h-56 overflow-y-auto px-4 pb-4">
+          {!conversations.length ? (
+            <p className="text-xs text-gray-500 py-2">{t("conversations.empty")}</p>
+          ) : (
+            <ul className="space-y-1" aria-labelledby="conversations-heading">
+              {[...conversations]
+                .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+                .map((conversation) => (
+                  <li
+                    key={conversation.id}
+                    className={`group flex items-center gap-2 p-2 rounded-lg transition-all ${
+                      conversation.id === activeConversationId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50 border border-transparent'
+                    }`}
+                  >
+                    <button
+                      onClick={() => onOpenConversation(conversation)}
+                      className="flex-1 min-w-0 flex items-start gap-2 text-start"
+                      aria-current={conversation.id === activeConversationId ? "true" : undefined}
+                    >
+                      <MessagesSquare className="w-4 h-4 mt-0.5 text-gray-400 shrink-0" aria-hidden="true" />
+                      <span className="min-w-0">
+                        <span className="block text-sm text-gray-800 truncate" dir="auto">{conversation.title}</span>
+                        <span className="flex items-center gap-1 text-xs text-gray-500">
+                          {conversation.readOnly && <Lock className="w-3 h-3 shrink-0" role="img" aria-label={t("conversations.readOnly")} />}
+                          <span className="truncate">{documentNames(conversation).join(", ")}</span>
+                        </span>
+                      </span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRemoveConversation(conversation.id)}
+                      className="p-1 h-auto text-gray-500 hover:text-gray-700 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                      title={t("conversations.delete")}
+                      aria-label={t("conversations.deleteName", { title: conversation.title })}
+                    >
+                      <Trash2 className="w-3 h-3" aria-hidden="true" />
+                    </Button>
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Session Info */}
+      {sessionInfo && (
+        <div className="p-4 border-t border-gray-200 bg-blue-50">
+          <p className="text-xs text-blue-700 font-medium">
+            {t("session.summary", {
+              documents: t("session.documents", { count: sessionInfo.total_documents }),
+              messages: t("session.messages", { count: sessionInfo.chat_history_length })
+            })}
+          </p>
+          <p className="text-xs text-blue-600 mt-1">
+            {sessionInfo.has_chain ? t("session.ready") : t("session.processing")}
+          </p>
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,136 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { X, Download, ThumbsUp, ThumbsDown, Timer, BarChart3 } from "lucide-react";
+import type { Conversation, Feedback } from "@/types/chat";
+import { summarizeFeedback, feedbackToCsv, formatLatency } from "@/lib/feedback";
+import { downloadBlob } from "@/lib/transcript";
+import { formatDate, formatNumber, t } from "@/lib/i18n";
+import { useDialog } from "@/hooks/useDialog";
+import { useLocale } from "@/hooks/useLocale";
+
+interface FeedbackAnalyticsProps {
+  feedback: Feedback[];
+  conversations: Conversation[];
+  documentNames: (conversation: Conversation) => string[];
+  onClose: () => void;
+}
+
+// Ratings per document, answer latency and the questions that were rated down
+export default function FeedbackAnalytics({ feedback, conversations, documentNames, onClose }: FeedbackAnalyticsProps) {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  useLocale();
+  const summary = useMemo(
+    () => summarizeFeedback(feedback, conversations, documentNames),
+    [feedback, conversations, documentNames]
+  );
+
+  const exportCsv = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([feedbackToCsv(feedback)], { type: "text/csv" }), `docuchat-feedback-${date}.csv`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="feedback-analytics-title"
+        tabIndex={-1}
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col rounded-xl bg-white shadow-xl outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center gap-3">
+          <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg">
+            <BarChart3 className="w-5 h-5 text-white" aria-hidden="true" />
+          </div>
+          <div className="flex-1">
+            <h2 id="feedback-analytics-title" className="font-semibold text-gray-800">{t("analytics.title")}</h2>
+            <p className="text-xs text-gray-600">
+              {feedback.some(f => f.synced) ? t("analytics.storedAndSent") : t("analytics.stored")}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={exportCsv} disabled={!feedback.length} className="text-gray-600" aria-label={t("analytics.exportCsv")}>
+            <Download className="w-4 h-4" aria-hidden="true" />
+            CSV
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} title={t("common.close")} aria-label={t("common.close")}>
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="p-4 space-y-6">
+            {/* Totals */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg border border-gray-200 p-3">
+                <p className="text-xs text-gray-500 flex items-center gap-1"><ThumbsUp className="w-3 h-3" aria-hidden="true" /> {t("feedback.helpful")}</p>
+                <p className="text-2xl font-semibold text-green-600">{formatNumber(summary.up)}</p>
+              </div>
+              <div className="rounded-lg border border-gray-200 p-3">
+                <p className="text-xs text-gray-500 flex items-center gap-1"><ThumbsDown className="w-3 h-3" aria-hidden="true" /> {t("feedback.notHelpful")}</p>
+                <p className="text-2xl font-semibold text-red-600">{formatNumber(summary.down)}</p>
+              </div>
+              <div className="rounded-lg border border-gray-200 p-3">
+                <p className="text-xs text-gray-500 flex items-center gap-1"><Timer className="w-3 h-3" aria-hidden="true" /> {t("analytics.averageResponse")}</p>
+                <p className="text-2xl font-semibold text-gray-800">{formatLatency(summary.averageLatencyMs)}</p>
+                <p className="text-xs text-gray-500">{t("analytics.overAnswers", { count: summary.answers })}</p>
+              </div>
+            </div>
+
+            {/* Per document */}
+            <section>
+              <h3 className="text-sm font-medium text-gray-800 mb-2">{t("analytics.byDocument")}</h3>
+              {summary.documents.length ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-start text-xs text-gray-500 border-b border-gray-200">
+                      <th className="py-1.5 font-medium text-start">{t("analytics.document")}</th>
+                      <th className="py-1.5 font-medium text-end">{t("feedback.helpful")}</th>
+                      <th className="py-1.5 font-medium text-end">{t("feedback.notHelpful")}</th>
+                      <th className="py-1.5 font-medium text-end">{t("analytics.averageResponse")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.documents.map(doc => (
+                      <tr key={doc.name} className="border-b border-gray-100 text-gray-700">
+                        <td className="py-1.5 pe-2 truncate max-w-xs" title={doc.name} dir="auto">{doc.name}</td>
+                        <td className="py-1.5 text-end tabular-nums">{formatNumber(doc.up)}</td>
+                        <td className="py-1.5 text-end tabular-nums">{formatNumber(doc.down)}</td>
+                        <td className="py-1.5 text-end tabular-nums">{formatLatency(doc.averageLatencyMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-500">{t("analytics.noAnswers")}</p>
+              )}
+            </section>
+
+            {/* Negative ratings */}
+            <section>
+              <h3 className="text-sm font-medium text-gray-800 mb-2">{t("analytics.ratedDown")}</h3>
+              {summary.negative.length ? (
+                <ul className="space-y-2">
+                  {summary.negative.map(item => (
+                    <li key={item.messageId} className="rounded-lg border border-red-100 bg-red-50/50 p-3 text-sm">
+                      <p className="font-medium text-gray-800" dir="auto">{item.question}</p>
+                      {item.comment && <p className="mt-1 text-gray-700 italic" dir="auto">{t("analytics.quoted", { text: item.comment })}</p>}
+                      <p className="mt-1 text-xs text-gray-500">
+                        {item.documentNames.join(", ")} · {formatDate(item.createdAt)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">{t("analytics.noNegative")}</p>
+              )}
+            </section>
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useRef, useState } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+import { t } from "@/lib/i18n";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github.css";
+
+interface MarkdownContentProps {
+  content: string;
+  // Number of sources an [n] marker may refer to
+  citationCount?: number;
+  renderCitation?: (index: number) => React.ReactNode;
+}
+
+// Minimal mdast shape, enough to walk text nodes
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MdNode[];
+}
+
+const CITATION_HREF = "#cite-";
+
+// react-markdown hands every renderer its hast `node`, which must not reach the DOM
+const withoutNode = <P extends { node?: unknown }>(props: P) => {
+  const rest = { ...props };
+  delete rest.node;
+  return rest as Omit<P, "node">;
+};
+
+// Turns [n] in prose (never in code) into links the `a` renderer swaps for citation markers
+const remarkCitations = (count: number) => () => (tree: MdNode) => {
+  const visit = (node: MdNode) => {
+    if (!node.children) return;
+    node.children = node.children.flatMap(child => {
+      if (child.type !== "text" || !child.value) {
+        // Markers inside an existing link stay plain text
+        if (child.type !== "link") visit(child);
+        return [child];
+      }
+      const parts: MdNode[] = [];
+      let last = 0;
+      for (const match of child.value.matchAll(/\[(\d+)\]/g)) {
+        const n = Number(match[1]);
+        if (n < 1 || n > count) continue;
+        parts.push({ type: "text", value: child.value.slice(last, match.index) });
+        parts.push({ type: "link", url: `${CITATION_HREF}${n}`, children: [{ type: "text", value: String(n) }] });
+        last = match.index + match[0].length;
+      }
+      if (!parts.length) return [child];
+      parts.push({ type: "text", value: child.value.slice(last) });
+      return parts;
+    });
+  };
+  visit(tree);
+};
+
+function CodeBlock({ children, ...props }: React.ComponentProps<"pre">) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Copy failed:", error);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        onClick={copy}
+        title={t("markdown.copyCode")}
+        aria-label={t("markdown.copyCode")}
+        className="absolute top-2 end-2 p-1.5 rounded-md bg-white/80 border border-gray-200 text-gray-500 hover:text-gray-800 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+      >
+        {copied ? <Check className="w-3.5 h-3.5 text-green-600" aria-hidden="true" /> : <Copy className="w-3.5 h-3.5" aria-hidden="true" />}
+      </button>
+      <pre ref={preRef} dir="ltr" className="overflow-x-auto rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm [&>code]:bg-transparent [&>code]:p-0" {...props}>
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+// Raw HTML in answers is never rendered: react-markdown escapes it and `skipHtml` drops it
+export default function MarkdownContent({ content, citationCount = 0, renderCitation }: MarkdownContentProps) {
+  const components: Components = {
+    pre: (props) => <CodeBlock {...withoutNode(props)} />,
+    code: ({ className, ...props }) => (
+      <code className={className ?? "px-1 py-0.5 rounded bg-gray-100 text-[0.9em]"} {...withoutNode(props)} />
+    ),
+    a: ({ href, children, ...props }) => {
+      if (href?.startsWith(CITATION_HREF) && renderCitation) {
+        return renderCitation(Number(href.slice(CITATION_HREF.length)));
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline" {...withoutNode(props)}>
+          {children}
+        </a>
+      );
+    },
+    p: (props) => <p className="my-2 first:mt-0 last:mb-0" {...withoutNode(props)} />,
+    ul: (props) => <ul className="my-2 ms-5 list-disc space-y-1" {...withoutNode(props)} />,
+    ol: (props) => <ol className="my-2 ms-5 list-decimal space-y-1" {...withoutNode(props)} />,
+    h1: (props) => <h1 className="mt-4 mb-2 text-xl font-bold" {...withoutNode(props)} />,
+    h2: (props) => <h2 className="mt-4 mb-2 text-lg font-bold" {...withoutNode(props)} />,
+    h3: (props) => <h3 className="mt-3 mb-2 font-semibold" {...withoutNode(props)} />,
+    blockquote: (props) => (
+      <blockquote className="my-2 border-s-4 border-gray-200 ps-3 text-gray-600" {...withoutNode(props)} />
+    ),
+    table: (props) => (
+      <div className="my-3 overflow-x-auto">
+        <table className="w-full border-collapse text-sm" {...withoutNode(props)} />
+      </div>
+    ),
+    th: (props) => <th className="border border-gray-200 bg-gray-50 px-2 py-1 text-start font-semibold" {...withoutNode(props)} />,
+    td: (props) => <td className="border border-gray-200 px-2 py-1" {...withoutNode(props)} />
+  };
+
+  return (
+    <div className="text-sm leading-relaxed break-words">
+      <ReactMarkdown
+        skipHtml
+        remarkPlugins={[remarkGfm, remarkMath, remarkCitations(citationCount)]}
+        rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: false }]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useState, useEffect, useRef } from "react";
+import { TextLayer } from "pdfjs-dist";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Input } from "@/components/ui/input";
+import {
+  ChevronLeft, ChevronRight, ZoomIn, ZoomOut, X,
+  PanelLeft, Loader2, AlertCircle
+} from "lucide-react";
+import { loadPdf, type PDFDocumentProxy, type RenderTask } from "@/lib/pdf";
+import { findPassage, type PassageMatch } from "@/lib/pdfSearch";
+import { formatNumber, formatPercent, t } from "@/lib/i18n";
+import { useLocale } from "@/hooks/useLocale";
+
+// A passage to jump to, e.g. from a clicked citation
+export interface ViewerTarget {
+  // Left out to just open a page, e.g. from the table of contents
+  excerpt?: string;
+  // 1-based page reported by the backend, if any
+  page?: number;
+}
+
+interface PdfViewerProps {
+  file: File;
+  name: string;
+  // For encrypted files that weren't opened yet this session
+  password?: string;
+  target?: ViewerTarget;
+  onClose: () => void;
+}
+
+interface PdfPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  highlight?: Pick<PassageMatch, "firstItem" | "lastItem">;
+}
+
+interface PdfThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  active: boolean;
+  onSelect: () => void;
+}
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+const THUMBNAIL_WIDTH = 96;
+
+// Renders one page to a canvas with a selectable pdf.js text layer on top
+function PdfPage({ pdf, pageNumber, scale, highlight }: PdfPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [textLayer, setTextLayer] = useState<TextLayer | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+    setTextLayer(null);
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      const container = textLayerRef.current;
+      if (cancelled || !canvas || !container) return;
+
+      const viewport = page.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      setSize({ width: viewport.width, height: viewport.height });
+
+      const canvasContext = canvas.getContext("2d");
+      if (!canvasContext) return;
+      renderTask = page.render({
+        canvasContext,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      });
+
+      container.replaceChildren();
+      textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+
+      try {
+        await Promise.all([renderTask.promise, textLayer.render()]);
+        if (!cancelled) setTextLayer(textLayer);
+      } catch (error) {
+        // Cancelling a render rejects its promise; anything else is a real failure
+        if (!cancelled) console.error(`Failed to render page ${pageNumber}:`, error);
+      }
+    };
+    render();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, scale]);
+
+  useEffect(() => {
+    if (!textLayer || !highlight) return;
+    const spans = textLayer.textDivs.slice(highlight.firstItem, highlight.lastItem + 1);
+    spans.forEach(span => span.classList.add("highlight"));
+    spans[0]?.scrollIntoView({ block: "center", behavior: "smooth" });
+    return () => spans.forEach(span => span.classList.remove("highlight"));
+  }, [textLayer, highlight]);
+
+  return (
+    // pdf.js positions the text layer from the left edge, whatever the page direction
+    <div
+      dir="ltr"
+      className="pdf-page relative bg-white shadow-md mx-auto"
+      style={{ width: size.width, height: size.height, "--scale-factor": scale } as React.CSSProperties}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div ref={textLayerRef} className="textLayer" />
+    </div>
+  );
+}
+
+// Thumbnails render only once scrolled into view, so long documents stay cheap
+function PdfThumbnail({ pdf, pageNumber, active, onSelect }: PdfThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const button = buttonRef.current;
+    if (!button) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(button);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (active) buttonRef.current?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    pdf.getPage(pageNumber).then(page => {
+      const canvas = canvasRef.current;
+      const canvasContext = canvas?.getContext("2d");
+      if (cancelled || !canvas || !canvasContext) return;
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvasContext, viewport });
+      renderTask.promise.catch(() => {});
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, visible]);
+
+  return (
+    <button
+      ref={buttonRef}
+      onClick={onSelect}
+      aria-label={t("viewer.pageNumber", { page: pageNumber })}
+      aria-current={active ? "page" : undefined}
+      className={`block w-full p-1 rounded-md border-2 transition-all ${
+        active ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+      }`}
+    >
+      <canvas ref={canvasRef} className="mx-auto bg-white shadow-sm" style={{ width: THUMBNAIL_WIDTH }} aria-hidden="true" />
+      <span className="block text-xs text-gray-600 mt-1" aria-hidden="true">{formatNumber(pageNumber)}</span>
+    </button>
+  );
+}
+
+export default function PdfViewer({ file, name, password, target, onClose }: PdfViewerProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState("");
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState("1");
+  const [scale, setScale] = useState(1);
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const [match, setMatch] = useState<PassageMatch | null>(null);
+  const [notice, setNotice] = useState("");
+  const { dir } = useLocale();
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdf(null);
+    setError("");
+    setPageNumber(1);
+
+    loadPdf(file, password)
+      .then(doc => { if (!cancelled) setPdf(doc); })
+      .catch(err => {
+        console.error(`Failed to open ${name}:`, err);
+        if (!cancelled) setError(err instanceof Error ? err.message : t("viewer.openPdfFailed"));
+      });
+
+    return () => { cancelled = true; };
+  }, [file, name, password]);
+
+  useEffect(() => {
+    setPageInput(String(pageNumber));
+  }, [pageNumber]);
+
+  // Jump to the cited passage: trust the backend's page when the excerpt is
+  // found near it, otherwise fall back to searching the whole text layer
+  useEffect(() => {
+    setMatch(null);
+    setNotice("");
+    if (!pdf || !target) return;
+    if (!target.excerpt) {
+      if (target.page && target.page <= pdf.numPages) setPageNumber(target.page);
+      return;
+    }
+    let cancelled = false;
+
+    findPassage(pdf, target.excerpt, target.page)
+      .then(found => {
+        if (cancelled) return;
+        if (found) {
+          setMatch(found);
+          setPageNumber(found.pageNumber);
+        } else if (target.page && target.page <= pdf.numPages) {
+          setPageNumber(target.page);
+          setNotice(t("viewer.passageNotExact", { page: target.page }));
+        } else {
+          setNotice(t("viewer.passageNotFound"));
+        }
+      })
+      .catch(err => {
+        console.error("Passage search failed:", err);
+        if (!cancelled) setNotice(t("viewer.passageNotFound"));
+      });
+
+    return () => { cancelled = true; };
+  }, [pdf, target]);
+
+  const numPages = pdf?.numPages ?? 0;
+
+  const goToPage = (page: number) => {
+    if (!numPages) return;
+    setPageNumber(Math.min(Math.max(page, 1), numPages));
+  };
+
+  const zoom = (delta: number) => {
+    setScale(prev => Math.min(Math.max(prev + delta, MIN_SCALE), MAX_SCALE));
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-100">
+      {/* Toolbar */}
+      <div className="p-2 border-b border-gray-200 bg-white/80 backdrop-blur-sm flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowThumbnails(!showThumbnails)}
+          title={t("viewer.thumbnails")}
+          aria-label={t("viewer.thumbnails")}
+          aria-pressed={showThumbnails}
+        >
+          <PanelLeft className="w-4 h-4 rtl:-scale-x-100" aria-hidden="true" />
+        </Button>
+        <p className="flex-1 min-w-0 text-sm font-medium text-gray-800 truncate" dir="auto">{name}</p>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => goToPage(pageNumber - 1)}
+          disabled={pageNumber <= 1}
+          title={t("viewer.previousPage")}
+          aria-label={t("viewer.previousPage")}
+        >
+          {dir === "rtl" ? <ChevronRight className="w-4 h-4" aria-hidden="true" /> : <ChevronLeft className="w-4 h-4" aria-hidden="true" />}
+        </Button>
+        <form
+          className="flex items-center gap-1 text-sm text-gray-600"
+          onSubmit={(e) => { e.preventDefault(); goToPage(Number(pageInput) || pageNumber); }}
+        >
+          <Input
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            onBlur={() => setPageInput(String(pageNumber))}
+            className="h-7 w-12 px-1 text-center"
+            inputMode="numeric"
+            aria-label={t("viewer.pageInput")}
+          />
+          <span>/ {numPages ? formatNumber(numPages) : "–"}</span>
+        </form>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => goToPage(pageNumber + 1)}
+          disabled={!numPages || pageNumber >= numPages}
+          title={t("viewer.nextPage")}
+          aria-label={t("viewer.nextPage")}
+        >
+          {dir === "rtl" ? <ChevronLeft className="w-4 h-4" aria-hidden="true" /> : <ChevronRight className="w-4 h-4" aria-hidden="true" />}
+        </Button>
+
+        <Button variant="ghost" size="sm" onClick={() => zoom(-SCALE_STEP)} disabled={scale <= MIN_SCALE} title={t("viewer.zoomOut")} aria-label={t("viewer.zoomOut")}>
+          <ZoomOut className="w-4 h-4" aria-hidden="true" />
+        </Button>
+        <span className="text-xs text-gray-600 w-10 text-center">{formatPercent(scale * 100)}</span>
+        <Button variant="ghost" size="sm" onClick={() => zoom(SCALE_STEP)} disabled={scale >= MAX_SCALE} title={t("viewer.zoomIn")} aria-label={t("viewer.zoomIn")}>
+          <ZoomIn className="w-4 h-4" aria-hidden="true" />
+        </Button>
+
+        <Button variant="ghost" size="sm" onClick={onClose} title={t("viewer.close")} aria-label={t("viewer.close")}>
+          <X className="w-4 h-4" aria-hidden="true" />
+        </Button>
+      </div>
+
+      {notice && (
+        <div className="px-3 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-800 flex items-center gap-2">
+          <AlertCircle className="w-3 h-3" aria-hidden="true" />
+          {notice}
+        </div>
+      )}
+
+      {/* Body */}
+      <div className="flex-1 flex overflow-hidden">
+        {error ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center p-6 text-red-600">
+            <AlertCircle className="w-8 h-8 mb-2" aria-hidden="true" />
+            <p className="text-sm">{error}</p>
+          </div>
+        ) : !pdf ? (
+          <div className="flex-1 flex items-center justify-center gap-2 text-gray-600">
+            <Loader2 className="w-5 h-5 animate-spin" aria-hidden="true" />
+            <span className="text-sm">{t("viewer.loading")}</span>
+          </div>
+        ) : (
+          <>
+            {showThumbnails && (
+              <ScrollArea className="w-32 min-w-32 border-e border-gray-200 bg-white/60">
+                <div className="p-2 space-y-2">
+                  {Array.from({ length: numPages }, (_, i) => (
+                    <PdfThumbnail
+                      key={i + 1}
+                      pdf={pdf}
+                      pageNumber={i + 1}
+                      active={pageNumber === i + 1}
+                      onSelect={() => goToPage(i + 1)}
+                    />
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+            <ScrollArea className="flex-1">
+              <div className="p-4 min-w-fit">
+                <PdfPage
+                  pdf={pdf}
+                  pageNumber={pageNumber}
+                  scale={scale}
+                  highlight={match?.pageNumber === pageNumber ? match : undefined}
+                />
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
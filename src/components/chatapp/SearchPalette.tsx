@@ -0,0 +1,115 @@
+import { useState, useMemo, useEffect, useRef } from "react";
+import { Search, Bot, User, BookOpen } from "lucide-react";
+import type { Conversation } from "@/types/chat";
+import { searchConversations, type SearchHit } from "@/lib/search";
+import { formatDate, t } from "@/lib/i18n";
+import { useDialog } from "@/hooks/useDialog";
+import { useLocale } from "@/hooks/useLocale";
+
+interface SearchPaletteProps {
+  conversations: Conversation[];
+  onSelect: (hit: SearchHit) => void;
+  onClose: () => void;
+}
+
+// Ctrl+K palette searching every conversation's messages and source excerpts
+export default function SearchPalette({ conversations, onSelect, onClose }: SearchPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  useLocale();
+
+  const hits = useMemo(() => searchConversations(conversations, query), [conversations, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!hits.length) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(i => (i + step + hits.length) % hits.length);
+    } else if (e.key === "Enter" && hits[activeIndex]) {
+      e.preventDefault();
+      onSelect(hits[activeIndex]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/30 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("search.title")}
+        tabIndex={-1}
+        className="w-full max-w-2xl max-h-[70vh] flex flex-col rounded-xl bg-white shadow-xl overflow-hidden outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-gray-200">
+          <Search className="w-4 h-4 text-gray-400 shrink-0" aria-hidden="true" />
+          <input
+            role="combobox"
+            aria-label={t("search.input")}
+            aria-expanded={!!hits.length}
+            aria-controls="search-results"
+            aria-activedescendant={hits[activeIndex] ? `search-hit-${activeIndex}` : undefined}
+            aria-autocomplete="list"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t("search.placeholder")}
+            className="flex-1 py-3 text-sm outline-none bg-transparent"
+            autoFocus
+          />
+          <kbd className="text-[10px] text-gray-500 border border-gray-200 rounded px-1.5 py-0.5" aria-hidden="true">Esc</kbd>
+        </div>
+
+        {query.trim() && (
+          hits.length ? (
+            <ul ref={listRef} id="search-results" role="listbox" aria-label={t("search.results")} className="flex-1 overflow-y-auto py-1">
+              {hits.map((hit, i) => {
+                const Icon = hit.source ? BookOpen : hit.message.role === "user" ? User : Bot;
+                return (
+                  <li
+                    key={`${hit.message.id}-${hit.source ? "source" : "message"}`}
+                    id={`search-hit-${i}`}
+                    role="option"
+                    aria-selected={i === activeIndex}
+                    onClick={() => onSelect(hit)}
+                    onMouseMove={() => setActiveIndex(i)}
+                    className={`cursor-pointer px-4 py-2 flex gap-3 ${i === activeIndex ? "bg-blue-50" : ""}`}
+                  >
+                    <Icon className="w-4 h-4 mt-0.5 text-gray-400 shrink-0" aria-hidden="true" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs text-gray-500 truncate">
+                        {hit.conversation.title}
+                        {hit.source && ` · ${hit.source.documentName ?? hit.source.source}${hit.source.page !== undefined ? `, ${t("source.page", { page: hit.source.page + 1 })}` : ""}`}
+                      </p>
+                      <p className="text-sm text-gray-700 line-clamp-2" dir="auto">
+                        {hit.snippet.map((part, k) => part.match
+                          ? <mark key={k} className="bg-yellow-200 text-gray-900 rounded-sm">{part.text}</mark>
+                          : <span key={k}>{part.text}</span>
+                        )}
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-500 shrink-0">{formatDate(hit.message.timestamp)}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p role="status" className="px-4 py-6 text-sm text-center text-gray-500">{t("search.empty", { query: query.trim() })}</p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
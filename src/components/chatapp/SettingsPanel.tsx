@@ -0,0 +1,39 @@
+import { Languages } from "lucide-react";
+import { t, languageName, ANSWER_LANGUAGES, LOCALES, type Locale } from "@/lib/i18n";
+import { useLocale } from "@/hooks/useLocale";
+import { useChatStore } from "@/store/chatStore";
+
+// Interface language and the language answers are requested in
+export default function SettingsPanel() {
+  const { locale, setLocale } = useLocale();
+  const answerLanguage = useChatStore(s => s.answerLanguage);
+  const updateAnswerLanguage = useChatStore(s => s.updateAnswerLanguage);
+
+  return (
+    <div className="mt-3 flex items-center gap-2 text-xs text-gray-600">
+      <Languages className="w-4 h-4 shrink-0" aria-hidden="true" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        aria-label={t("language.interface")}
+        className="min-w-0 flex-1 rounded-md border border-gray-200 bg-white px-1.5 py-1"
+      >
+        {LOCALES.map(option => (
+          <option key={option.id} value={option.id} lang={option.id}>{option.name}</option>
+        ))}
+      </select>
+      <select
+        value={answerLanguage ?? ""}
+        onChange={(e) => updateAnswerLanguage(e.target.value || null)}
+        aria-label={t("language.answers")}
+        title={t("language.answers")}
+        className="min-w-0 flex-1 rounded-md border border-gray-200 bg-white px-1.5 py-1"
+      >
+        <option value="">{t("language.matchQuestion")}</option>
+        {ANSWER_LANGUAGES.map(tag => (
+          <option key={tag} value={tag}>{languageName(tag)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { X, Keyboard, RotateCcw } from "lucide-react";
+import { COMMANDS, commandLabel, defaultBindings, eventToBinding, type Bindings, type CommandId } from "@/lib/shortcuts";
+import { t, type MessageKey } from "@/lib/i18n";
+import { useDialog } from "@/hooks/useDialog";
+import { useLocale } from "@/hooks/useLocale";
+import ShortcutKeys from "./ShortcutKeys";
+
+interface ShortcutHelpProps {
+  bindings: Bindings;
+  onChange: (bindings: Bindings) => void;
+  onClose: () => void;
+}
+
+// Keys handled by the question box itself; these can't be rebound
+const FIXED_SHORTCUTS: [string, MessageKey][] = [
+  ["Enter", "shortcuts.fixed.send"],
+  ["Shift+Enter", "shortcuts.fixed.newLine"],
+  ["ArrowUp", "shortcuts.fixed.recall"],
+  ["Escape", "shortcuts.fixed.escape"]
+];
+
+// Lists every shortcut and lets the user record new bindings
+export default function ShortcutHelp({ bindings, onChange, onClose }: ShortcutHelpProps) {
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const [notice, setNotice] = useState("");
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  useLocale();
+
+  const record = (id: CommandId, e: React.KeyboardEvent) => {
+    // Tab still moves focus, which ends recording
+    if (e.key === "Tab") return;
+    // Keys pressed while recording must not trigger the global shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      setRecording(null);
+      return;
+    }
+    const clearing = e.key === "Backspace" || e.key === "Delete";
+    const binding = clearing ? null : eventToBinding(e.nativeEvent);
+    // A lone modifier: wait for the rest of the combination
+    if (!clearing && !binding) return;
+
+    const next = { ...bindings, [id]: binding };
+    const taken = binding && COMMANDS.find(c => c.id !== id && bindings[c.id] === binding);
+    if (taken) {
+      next[taken.id] = null;
+      setNotice(t("shortcuts.unbound", { command: commandLabel(taken.id) }));
+    } else {
+      setNotice("");
+    }
+    onChange(next);
+    setRecording(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        tabIndex={-1}
+        className="w-full max-w-lg max-h-[85vh] flex flex-col rounded-xl bg-white shadow-xl outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex items-center gap-3">
+          <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg">
+            <Keyboard className="w-5 h-5 text-white" aria-hidden="true" />
+          </div>
+          <div className="flex-1">
+            <h2 id="shortcut-help-title" className="font-semibold text-gray-800">{t("shortcuts.title")}</h2>
+            <p className="text-xs text-gray-600">{t("shortcuts.hint")}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => { onChange(defaultBindings()); setNotice(""); }}
+            className="text-gray-600"
+            title={t("shortcuts.resetTitle")}
+          >
+            <RotateCcw className="w-4 h-4" aria-hidden="true" />
+            {t("shortcuts.reset")}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} title={t("common.close")} aria-label={t("common.close")} autoFocus>
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <p role="status" className="text-xs text-amber-700 empty:hidden">{notice}</p>
+          <ul className="space-y-1">
+            {COMMANDS.map(command => {
+              const binding = bindings[command.id];
+              return (
+                <li key={command.id} className="flex items-center gap-3 text-sm text-gray-700">
+                  <span className="flex-1">{commandLabel(command.id)}</span>
+                  <button
+                    onClick={() => setRecording(recording === command.id ? null : command.id)}
+                    onKeyDown={(e) => { if (recording === command.id) record(command.id, e); }}
+                    onBlur={() => { if (recording === command.id) setRecording(null); }}
+                    className={`rounded px-1 py-0.5 border ${
+                      recording === command.id ? "border-blue-400 bg-blue-50" : "border-transparent hover:border-gray-200"
+                    }`}
+                    title={binding ? t("shortcuts.change") : t("shortcuts.add")}
+                    aria-label={t("shortcuts.bindingLabel", {
+                      command: commandLabel(command.id),
+                      binding: recording === command.id ? t("shortcuts.recordingHint") : binding ?? t("shortcuts.none")
+                    })}
+                  >
+                    {recording === command.id ? (
+                      <span className="text-xs text-blue-600">{t("shortcuts.recording")}</span>
+                    ) : binding ? (
+                      <ShortcutKeys binding={binding} />
+                    ) : (
+                      <span className="text-xs text-gray-500">{t("shortcuts.none")}</span>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div>
+            <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{t("shortcuts.fixed.title")}</h3>
+            <ul className="space-y-1">
+              {FIXED_SHORTCUTS.map(([binding, label]) => (
+                <li key={binding} className="flex items-center gap-3 text-sm text-gray-700">
+                  <span className="flex-1">{t(label)}</span>
+                  <span className="px-1"><ShortcutKeys binding={binding} /></span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { formatBinding } from "@/lib/shortcuts";
+
+// A binding rendered as a row of <kbd> keys, left to right in every locale
+export default function ShortcutKeys({ binding }: { binding: string }) {
+  return (
+    <span className="inline-flex items-center gap-1" dir="ltr">
+      {formatBinding(binding).map((key, i) => (
+        <kbd key={i} className="min-w-5 text-center text-[11px] text-gray-600 bg-gray-50 border border-gray-200 rounded px-1.5 py-0.5">
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+}
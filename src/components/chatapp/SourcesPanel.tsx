@@ -0,0 +1,45 @@
+import { useChatStore } from "@/store/chatStore";
+import { getDocumentType } from "@/lib/documentTypes";
+import { t } from "@/lib/i18n";
+import type { Document } from "@/types/chat";
+import PdfViewer from "./PdfViewer";
+import DocumentPreview from "./DocumentPreview";
+
+interface SourcesPanelProps {
+  document: Document;
+  file: File;
+  // Needed again to open an encrypted PDF
+  password?: string;
+}
+
+// The document a cited source came from, opened at the passage
+export default function SourcesPanel({ document, file, password }: SourcesPanelProps) {
+  const viewer = useChatStore(s => s.viewer);
+  const setViewer = useChatStore(s => s.setViewer);
+  const isMobile = useChatStore(s => s.isMobile);
+  const type = getDocumentType(document.type);
+
+  return (
+    <section
+      aria-label={t("viewer.label")}
+      className={isMobile ? 'fixed inset-0 z-30' : 'w-[45%] min-w-96 border-s border-gray-200 relative z-10'}
+    >
+      {type.preview === "pdf" ? (
+        <PdfViewer
+          file={file}
+          name={document.name}
+          password={password}
+          target={viewer?.target}
+          onClose={() => setViewer(null)}
+        />
+      ) : (
+        <DocumentPreview
+          file={file}
+          name={document.name}
+          type={type}
+          onClose={() => setViewer(null)}
+        />
+      )}
+    </section>
+  );
+}
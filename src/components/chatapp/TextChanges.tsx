@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { getDocumentType } from "@/lib/documentTypes";
+import { diffLines, extractPdfLines, toHunks, type DiffHunk } from "@/lib/textDiff";
+import { formatNumber, t } from "@/lib/i18n";
+import type { Document } from "@/types/chat";
+
+interface TextChangesProps {
+  // Older version first
+  documents: [Document, Document];
+  // Needed again to open encrypted PDFs
+  passwordFor: (documentId: string) => string | undefined;
+}
+
+type DiffState =
+  | { status: "loading" }
+  | { status: "failed"; error: string }
+  | { status: "ready"; hunks: DiffHunk[]; added: number; removed: number };
+
+// Very different documents produce thousands of hunks; the first ones make the point
+const MAX_HUNKS = 200;
+
+const comparable = (doc: Document) => getDocumentType(doc.type).preview === "pdf" && !!doc.file;
+
+// Line-by-line differences between the text layers of two PDFs
+export default function TextChanges({ documents: [left, right], passwordFor }: TextChangesProps) {
+  const [state, setState] = useState<DiffState>({ status: "loading" });
+  const available = comparable(left) && comparable(right);
+
+  useEffect(() => {
+    if (!available || !left.file || !right.file) return;
+    let cancelled = false;
+    setState({ status: "loading" });
+
+    Promise.all([extractPdfLines(left.file, passwordFor(left.id)), extractPdfLines(right.file, passwordFor(right.id))])
+      .then(([oldLines, newLines]) => {
+        if (cancelled) return;
+        const ops = diffLines(oldLines, newLines);
+        setState({
+          status: "ready",
+          hunks: toHunks(ops),
+          added: ops.filter(op => op.type === "added").length,
+          removed: ops.filter(op => op.type === "removed").length
+        });
+      })
+      .catch(error => {
+        console.error("Text comparison failed:", error);
+        if (!cancelled) setState({ status: "failed", error: error instanceof Error ? error.message : t("errors.unknown") });
+      });
+
+    return () => { cancelled = true; };
+  }, [available, left.id, left.file, right.id, right.file, passwordFor]);
+
+  if (!available) {
+    return <p className="p-8 text-center text-sm text-gray-600">{t("compare.changesUnavailable")}</p>;
+  }
+
+  if (state.status === "loading") {
+    return (
+      <p role="status" className="p-8 flex items-center justify-center gap-2 text-sm text-gray-600">
+        <Loader2 className="w-4 h-4 motion-safe:animate-spin" aria-hidden="true" />
+        {t("compare.changesLoading")}
+      </p>
+    );
+  }
+
+  if (state.status === "failed") {
+    return (
+      <p role="alert" className="p-8 flex items-center justify-center gap-2 text-sm text-red-700">
+        <AlertCircle className="w-4 h-4" aria-hidden="true" />
+        {t("compare.changesFailed", { error: state.error })}
+      </p>
+    );
+  }
+
+  const { hunks, added, removed } = state;
+  return (
+    <div className="flex-1 overflow-hidden">
+      <ScrollArea className="h-full">
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            {hunks.length ? (
+              <>
+                <span className="text-green-700">{t("compare.linesAdded", { count: added })}</span>
+                {" · "}
+                <span className="text-red-700">{t("compare.linesRemoved", { count: removed })}</span>
+              </>
+            ) : t("compare.noChanges")}
+          </p>
+          {hunks.length > MAX_HUNKS && (
+            <p className="text-xs text-gray-500">{t("compare.truncated", { shown: MAX_HUNKS, total: hunks.length })}</p>
+          )}
+          <ol className="space-y-3" aria-label={t("compare.changesTab")}>
+            {hunks.slice(0, MAX_HUNKS).map((hunk, i) => (
+              <li key={i} className="rounded-lg border border-gray-200 bg-white shadow-sm overflow-hidden">
+                <h3 className="px-3 py-1.5 border-b border-gray-200 bg-gray-50 text-xs text-gray-600">
+                  {t("compare.hunkPages", {
+                    left: hunk.leftPage !== undefined ? formatNumber(hunk.leftPage) : "–",
+                    right: hunk.rightPage !== undefined ? formatNumber(hunk.rightPage) : "–"
+                  })}
+                </h3>
+                <div className="font-mono text-xs leading-relaxed" dir="auto">
+                  {hunk.ops.map((op, k) => op.type === "added" ? (
+                    <ins key={k} className="block px-3 no-underline bg-green-50 text-green-900">
+                      <span aria-hidden="true" className="select-none me-2">+</span>{op.text}
+                    </ins>
+                  ) : op.type === "removed" ? (
+                    <del key={k} className="block px-3 bg-red-50 text-red-900">
+                      <span aria-hidden="true" className="select-none me-2">−</span>{op.text}
+                    </del>
+                  ) : (
+                    <span key={k} className="block px-3 text-gray-500">
+                      <span aria-hidden="true" className="select-none me-2"> </span>{op.text}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, type ReactNode } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { axeViolations } from "@/test/axe";
+import { defaultBindings } from "@/lib/shortcuts";
+import type { Conversation } from "@/types/chat";
+import CommandPalette from "./CommandPalette";
+import SearchPalette from "./SearchPalette";
+import ShortcutHelp from "./ShortcutHelp";
+import FeedbackAnalytics from "./FeedbackAnalytics";
+
+const now = new Date("2026-01-05T10:00:00Z");
+const conversation: Conversation = {
+  id: "c1",
+  title: "Quarterly report",
+  documentIds: [],
+  documentNames: ["report.pdf"],
+  createdAt: now,
+  updatedAt: now,
+  messages: [
+    { id: "m1", role: "user", content: "What was the revenue?", timestamp: now },
+    { id: "m2", role: "bot", content: "Revenue grew by 12%.", timestamp: now, parentId: "m1" }
+  ]
+};
+
+// Opens the dialog from a button, the way the app does
+function Opener({ dialog }: { dialog: (onClose: () => void) => ReactNode }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <main>
+      <button onClick={() => setOpen(true)}>Open</button>
+      {open && dialog(() => setOpen(false))}
+    </main>
+  );
+}
+
+const dialogs: [string, (onClose: () => void) => ReactNode][] = [
+  ["command palette", onClose => (
+    <CommandPalette bindings={defaultBindings()} isAvailable={() => true} onRun={vi.fn()} onClose={onClose} />
+  )],
+  ["search palette", onClose => (
+    <SearchPalette conversations={[conversation]} onSelect={vi.fn()} onClose={onClose} />
+  )],
+  ["shortcut help", onClose => (
+    <ShortcutHelp bindings={defaultBindings()} onChange={vi.fn()} onClose={onClose} />
+  )],
+  ["feedback analytics", onClose => (
+    <FeedbackAnalytics feedback={[]} conversations={[conversation]} documentNames={() => ["report.pdf"]} onClose={onClose} />
+  )]
+];
+
+describe.each(dialogs)("%s", (_name, dialog) => {
+  it("is an accessible modal that hands focus back when closed", async () => {
+    const user = userEvent.setup();
+    render(<Opener dialog={dialog} />);
+    const opener = screen.getByRole("button", { name: "Open" });
+
+    await user.click(opener);
+    const modal = screen.getByRole("dialog");
+    expect(modal).toHaveAttribute("aria-modal", "true");
+    expect(modal).toContainElement(document.activeElement as HTMLElement);
+    expect(await axeViolations()).toEqual([]);
+
+    // Tab never leaves the dialog
+    for (let i = 0; i < 15; i++) {
+      await user.tab();
+      expect(modal).toContainElement(document.activeElement as HTMLElement);
+    }
+
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(opener).toHaveFocus();
+  });
+});
+
+describe("search palette", () => {
+  it("exposes results as a listbox driven from the search box", async () => {
+    const user = userEvent.setup();
+    render(<SearchPalette conversations={[conversation]} onSelect={vi.fn()} onClose={vi.fn()} />);
+
+    const combobox = screen.getByRole("combobox", { name: "Search conversations and sources" });
+    await user.type(combobox, "revenue");
+
+    const options = screen.getAllByRole("option");
+    expect(options).toHaveLength(2);
+    expect(combobox).toHaveAttribute("aria-activedescendant", options[0].id);
+    await user.keyboard("{ArrowDown}");
+    expect(combobox).toHaveAttribute("aria-activedescendant", options[1].id);
+    expect(options[1]).toHaveAttribute("aria-selected", "true");
+    expect(await axeViolations()).toEqual([]);
+  });
+});
@@ -0,0 +1,268 @@
+import { useEffect, useRef } from "react";
+import { useNavigate } from "react-router";
+import { api, ApiError, isAbortError, type ChatTurn } from "@/lib/api";
+import { useChatStore } from "@/store/chatStore";
+import type { BackendStatus } from "@/hooks/useBackendHealth";
+import { resolveAnswerSettings, toChatParameters } from "@/lib/answerSettings";
+import { pathTo, parentIdOf, addMessage, addAnswer, removeMessage, toChatHistory } from "@/lib/conversationTree";
+import { conversationPath } from "@/lib/routes";
+import {
+  conversationDocuments, createId, isQueryable, sameDocuments, type QueryableDocument
+} from "@/lib/workspace";
+import { t } from "@/lib/i18n";
+import type { Conversation, Document, Message, MessageSource } from "@/types/chat";
+
+// Shifts [n] citation markers by `offset` so per-document answers can share one numbered source list
+const renumberCitations = (content: string, sourceCount: number, offset: number) =>
+  offset === 0 ? content : content.replace(/\[(\d+)\]/g, (marker, n) =>
+    Number(n) >= 1 && Number(n) <= sourceCount ? `[${Number(n) + offset}]` : marker
+  );
+
+/**
+ * Asking and answering in `activeConversation`, whose shown branch is
+ * `messages`: sends questions, edits and regenerations, streams the answers
+ * and keeps questions asked while the backend is away in an outbox until
+ * `flushOutbox` runs. `reportFailure` is told when the backend can't be reached.
+ */
+export function useAnswering(
+  activeConversation: Conversation | undefined,
+  messages: Message[],
+  backendStatus: BackendStatus,
+  reportFailure: () => void
+) {
+  const {
+    documents, setConversations, updateConversation, updateMessages, loading, setLoading, setApiError,
+    setAnnouncement, setEditing, answerLanguage, refreshSessionInfo
+  } = useChatStore();
+  const navigate = useNavigate();
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const flushingRef = useRef(false);
+
+  // Abort an answer still streaming when the chat unmounts
+  useEffect(() => () => chatAbortRef.current?.abort(), []);
+
+  const setPending = (conversationId: string, messageId: string, pending: boolean) =>
+    updateMessages(conversationId, prev => prev.map(m => m.id === messageId ? { ...m, pending } : m));
+
+  // Streams the answer to `question` into the conversation as a new branch under it.
+  // `history` is the thread leading up to the question. Resolves to false, with
+  // the question back in the outbox, when the backend couldn't be reached.
+  const answerQuestion = async (
+    conversationId: string,
+    question: Message,
+    selected: QueryableDocument[],
+    history: ChatTurn[]
+  ) => {
+    // Each document is asked with its own settings, recorded so the answer can be traced back to them
+    const settings = Object.fromEntries(selected.map(doc => [doc.id, resolveAnswerSettings(doc.settings)]));
+
+    // The bot message is shown right away and grows as tokens arrive
+    const botId = createId();
+    const botMsg: Message = {
+      id: botId, parentId: question.id, role: "bot", content: "", timestamp: new Date(), streaming: true, settings
+    };
+    const updateBot = (update: (msg: Message) => Partial<Message>) =>
+      updateMessages(conversationId, prev => prev.map(m => m.id === botId ? { ...m, ...update(m) } : m));
+
+    updateConversation(conversationId, c => addAnswer(c, botMsg));
+    setLoading(true);
+    const startedAt = performance.now();
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    // With several documents selected the question fans out to each one's
+    // session and the answers are merged into a single message, one section per document
+    const parts = selected.map(doc => ({ doc, content: "", sources: [] as MessageSource[] }));
+    const compose = () => {
+      if (parts.length === 1) return parts[0].content;
+      let offset = 0;
+      return parts.map(part => {
+        const section = `**${part.doc.name}**\n\n${renumberCitations(part.content, part.sources.length, offset)}`;
+        offset += part.sources.length;
+        return section;
+      }).join("\n\n");
+    };
+
+    const results = await Promise.allSettled(parts.map(async part => {
+      const data = await api.chatStream({
+        session_id: part.doc.sessionId,
+        question: question.content,
+        chat_history: history,
+        language: answerLanguage ?? undefined,
+        ...toChatParameters(settings[part.doc.id])
+      }, {
+        signal: controller.signal,
+        onToken: (token) => {
+          part.content += token;
+          updateBot(() => ({ content: compose() }));
+        }
+      });
+      part.content = part.content || data.answer || t("chat.noResponse");
+      part.sources = (data.sources || []).map(source => ({
+        ...source,
+        documentId: part.doc.id,
+        documentName: part.doc.name
+      }));
+    }));
+
+    chatAbortRef.current = null;
+    setLoading(false);
+
+    // Nothing got through at all: drop the empty answer and queue the question again
+    const unreachable = results.every(result =>
+      result.status === "rejected" && result.reason instanceof ApiError && result.reason.kind === "network"
+    );
+    if (unreachable && parts.every(part => !part.content)) {
+      updateConversation(conversationId, c => removeMessage(c, botId));
+      setPending(conversationId, question.id, true);
+      reportFailure();
+      return false;
+    }
+
+    const errors = results.flatMap((result, k) =>
+      result.status === "rejected" && !isAbortError(result.reason) ? [{ part: parts[k], error: result.reason }] : []
+    );
+    const stopped = results.some(result => result.status === "rejected" && isAbortError(result.reason));
+
+    errors.forEach(({ part, error }) => {
+      console.error(`Chat error for ${part.doc.name}:`, error);
+      part.content = part.content || t("chat.answerFailed");
+    });
+    if (errors.length) {
+      const message = (error: unknown) => error instanceof Error ? error.message : t("errors.unknown");
+      setApiError(errors.length === 1 && parts.length === 1
+        ? message(errors[0].error)
+        : errors.map(({ part, error }) => `${part.doc.name}: ${message(error)}`).join("; "));
+    }
+
+    // Sources arrive with the end of each stream; stopped answers keep whatever was streamed
+    updateBot(() => ({
+      content: compose(),
+      sources: parts.flatMap(part => part.sources),
+      streaming: false,
+      stopped,
+      // Only complete answers count towards response times
+      latencyMs: stopped || errors.length ? undefined : Math.round(performance.now() - startedAt)
+    }));
+    // Errors are announced through apiError
+    if (stopped) setAnnouncement(t("chat.answerStopped"));
+    else if (!errors.length) setAnnouncement(t("chat.answerAnnouncement", { answer: compose() }));
+
+    // Update session info
+    if (selected.length === 1) {
+      await refreshSessionInfo(selected[0].sessionId);
+    }
+    return true;
+  };
+
+  // Adds a question after `thread` (the messages it follows) and answers it,
+  // or leaves it in the outbox while disconnected
+  const askQuestion = async (
+    conversationId: string,
+    question: string,
+    thread: Message[],
+    selected: QueryableDocument[]
+  ) => {
+    const userMsg: Message = {
+      id: createId(),
+      parentId: thread.length ? thread[thread.length - 1].id : null,
+      role: "user",
+      content: question,
+      timestamp: new Date(),
+      pending: backendStatus === "reconnecting" || backendStatus === "offline" || undefined
+    };
+    updateConversation(conversationId, c => addMessage(c, userMsg));
+    setApiError("");
+
+    if (!userMsg.pending) await answerQuestion(conversationId, userMsg, selected, toChatHistory(thread));
+  };
+
+  // Returns false when there is nothing to send, so the question stays in the box
+  const sendMessage = (question: string) => {
+    const selected = documents.filter(isQueryable);
+    // The question box stays enabled while answering, so focus isn't lost
+    if (!question.trim() || !selected.length || loading) return false;
+
+    // Continue the open conversation if it is about the same documents, otherwise start a new one
+    const documentIds = selected.map(d => d.id);
+    const continuing = activeConversation && sameDocuments(activeConversation.documentIds, documentIds);
+    let conversationId = continuing ? activeConversation.id : null;
+    const thread = continuing ? messages : [];
+    if (!conversationId) {
+      const conversation: Conversation = {
+        id: createId(),
+        title: question.trim().slice(0, 60),
+        documentIds,
+        messages: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      conversationId = conversation.id;
+      setConversations(prev => [conversation, ...prev]);
+      navigate(conversationPath(conversation, documents));
+    }
+
+    askQuestion(conversationId, question, thread, selected);
+    return true;
+  };
+
+  // Asks an edited version of a question as a new branch beside the original.
+  // Like a new question, it waits until the answer being streamed has finished.
+  const editQuestion = async (message: Message, content: string) => {
+    if (loading) return;
+    setEditing(null);
+    if (!activeConversation || !content.trim() || content === message.content) return;
+    const selected = conversationDocuments(activeConversation, documents);
+    if (!selected.length) {
+      setApiError(t("errors.documentsUnavailable"));
+      return;
+    }
+    const parentId = parentIdOf(activeConversation, message);
+    await askQuestion(activeConversation.id, content, pathTo(activeConversation, parentId), selected);
+  };
+
+  // Answers the same question again as a new branch beside `message`
+  const regenerateAnswer = async (message: Message) => {
+    if (!activeConversation || loading) return;
+    const question = activeConversation.messages.find(m => m.id === parentIdOf(activeConversation, message));
+    const selected = conversationDocuments(activeConversation, documents);
+    if (!question || !selected.length) {
+      setApiError(t("errors.documentsUnavailable"));
+      return;
+    }
+    setApiError("");
+    const history = toChatHistory(pathTo(activeConversation, parentIdOf(activeConversation, question)));
+    await answerQuestion(activeConversation.id, question, selected, history);
+  };
+
+  // Sends queued questions in the order they were asked, stopping if the connection drops again
+  const flushOutbox = async (from: Conversation[], docs: Document[]) => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      const queued = from.flatMap(conversation =>
+        conversation.messages.filter(m => m.pending).map(message => ({ conversation, message }))
+      ).sort((a, b) => a.message.timestamp.getTime() - b.message.timestamp.getTime());
+
+      for (const { conversation, message } of queued) {
+        setPending(conversation.id, message.id, false);
+        const selected = conversationDocuments(conversation, docs);
+        if (!selected.length) {
+          setApiError(t("errors.queuedUnavailable", { question: message.content.slice(0, 40) }));
+          continue;
+        }
+        const history = toChatHistory(pathTo(conversation, parentIdOf(conversation, message)));
+        if (!await answerQuestion(conversation.id, message, selected, history)) break;
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  const stopStreaming = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  return { sendMessage, editQuestion, regenerateAnswer, flushOutbox, stopStreaming };
+}
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+import { auth } from "@/lib/auth";
+
+const subscribeNone = () => () => {};
+const getNone = () => null;
+
+/**
+ * The signed-in session, or null. `enabled` is false when no identity provider
+ * is configured, in which case the app runs signed out.
+ */
+export function useAuth() {
+  const session = useSyncExternalStore(auth?.subscribe ?? subscribeNone, auth?.getSession ?? getNone);
+  return { session, enabled: !!auth };
+}
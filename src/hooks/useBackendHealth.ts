@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api, type HealthResponse } from "@/lib/api";
+
+export type BackendStatus = "unknown" | "healthy" | "reconnecting" | "offline";
+
+// Healthy backends are checked at a steady pace; failing ones back off
+// exponentially so a long outage isn't hammered with requests
+const POLL_INTERVAL_MS = 30_000;
+const MIN_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+
+/**
+ * Polls `/health` for as long as the component is mounted and reports
+ * whether the backend is reachable. `onReconnect` runs every time the backend
+ * becomes healthy after being unknown or unreachable.
+ */
+export function useBackendHealth(onReconnect?: () => void) {
+  const [status, setStatus] = useState<BackendStatus>("unknown");
+  // Last successful /health response, which may carry server settings
+  const [info, setInfo] = useState<HealthResponse | null>(null);
+  const onReconnectRef = useRef(onReconnect);
+  const statusRef = useRef(status);
+  const failures = useRef(0);
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const checkRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    onReconnectRef.current = onReconnect;
+  });
+
+  const update = useCallback((next: BackendStatus) => {
+    const recovered = next === "healthy" && statusRef.current !== "healthy";
+    statusRef.current = next;
+    setStatus(next);
+    if (recovered) onReconnectRef.current?.();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let controller: AbortController | null = null;
+
+    const schedule = (ms: number) => {
+      clearTimeout(timer.current);
+      timer.current = setTimeout(check, ms);
+    };
+
+    const check = async () => {
+      clearTimeout(timer.current);
+      controller?.abort();
+      if (!navigator.onLine) {
+        update("offline");
+        return;
+      }
+      const current = new AbortController();
+      controller = current;
+      try {
+        // Polling has its own backoff, so a single attempt per check
+        const data = await api.health({ signal: current.signal, timeoutMs: 10_000, retries: 0 });
+        if (cancelled) return;
+        setInfo(data);
+        failures.current = 0;
+        update("healthy");
+        schedule(POLL_INTERVAL_MS);
+      } catch (error) {
+        if (cancelled || current.signal.aborted) return;
+        console.error("Health check failed:", error);
+        failures.current++;
+        update("reconnecting");
+        schedule(Math.min(MIN_BACKOFF_MS * 2 ** (failures.current - 1), MAX_BACKOFF_MS));
+      }
+    };
+    checkRef.current = check;
+
+    const goOffline = () => {
+      clearTimeout(timer.current);
+      controller?.abort();
+      update("offline");
+    };
+
+    check();
+    window.addEventListener("online", check);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer.current);
+      controller?.abort();
+      window.removeEventListener("online", check);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [update]);
+
+  // Checks right away, e.g. from a "Retry now" button
+  const checkNow = useCallback(() => checkRef.current(), []);
+
+  // A request failed for lack of a connection: stop trusting the last poll
+  const reportFailure = useCallback(() => {
+    if (statusRef.current !== "healthy") return;
+    update("reconnecting");
+    checkRef.current();
+  }, [update]);
+
+  return { status, info, checkNow, reportFailure };
+}
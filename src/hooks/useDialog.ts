@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from "react";
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), textarea:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Modal behaviour for a dialog element: Escape closes it, Tab cycles within
+ * it, and focus goes back to whatever had it before the dialog opened.
+ * Attach the returned ref to the dialog's outermost panel.
+ */
+export function useDialog<T extends HTMLElement>(onClose: () => void) {
+  const ref = useRef<T>(null);
+  const onCloseRef = useRef(onClose);
+  // Read while rendering: by the time effects run, autoFocus has already moved focus
+  const [opener] = useState(() => document.activeElement instanceof HTMLElement ? document.activeElement : null);
+
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  });
+
+  useEffect(() => {
+    const dialog = ref.current;
+    // Dialogs without an autofocused control still take focus, so Tab stays inside
+    if (dialog && !dialog.contains(document.activeElement)) dialog.focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!dialog) return;
+      if (e.key === "Escape" && !e.defaultPrevented) {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+      const focusable = [...dialog.querySelectorAll<HTMLElement>(FOCUSABLE)];
+      if (!focusable.length) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === dialog)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      if (opener?.isConnected) opener.focus();
+    };
+  }, [opener]);
+
+  return ref;
+}
@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useRef } from "react";
+import { api, ApiError, isAbortError, type UploadOptions } from "@/lib/api";
+import { useChatStore } from "@/store/chatStore";
+import { createTaskQueue } from "@/lib/taskQueue";
+import { getDocumentType, toUploadFile, type DocumentType } from "@/lib/documentTypes";
+import { checkFile, checkPageCount, type UploadPolicy } from "@/lib/uploadPolicy";
+import { inspectPdf, inspectionWarning } from "@/lib/pdfInspect";
+import { createId } from "@/lib/workspace";
+import { t } from "@/lib/i18n";
+import type { Document } from "@/types/chat";
+
+const MAX_CONCURRENT_UPLOADS = 2;
+
+/**
+ * The upload pipeline: checks added files against `policy`, inspects PDFs,
+ * asks for passwords and confirmations, uploads through a small queue and
+ * fetches each document's summary once it is ready. Uploads still running
+ * are aborted when the component unmounts.
+ */
+export function useDocuments(policy: UploadPolicy) {
+  const {
+    documents, setDocuments, updateDocument, setConversations, setApiError, setRejections, setSessionInfo,
+    setViewer, setAnnouncement, answerLanguage
+  } = useChatStore();
+  const uploadQueue = useRef(createTaskQueue(MAX_CONCURRENT_UPLOADS));
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  // Passwords for encrypted PDFs, kept in memory only
+  const uploadPasswords = useRef(new Map<string, string>());
+  // Document to move focus to once it has rendered, after files are added
+  const focusDocumentRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const controllers = uploadControllers.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  useEffect(() => {
+    const id = focusDocumentRef.current;
+    if (!id) return;
+    focusDocumentRef.current = null;
+    document.getElementById(`document-${id}`)?.focus();
+  }, [documents]);
+
+  // The summary and starter questions follow some time after the document is ready.
+  // Backends that can't summarise get an empty summary, so they aren't asked again.
+  const summarizeDocument = async (id: string, sessionId: string) => {
+    updateDocument(id, { summarizing: true });
+    try {
+      const data = await api.summarize({ session_id: sessionId, language: answerLanguage ?? undefined });
+      updateDocument(id, {
+        summarizing: undefined,
+        summary: { text: data.summary ?? "", questions: data.suggested_questions ?? [] }
+      });
+    } catch (error) {
+      const unsupported = error instanceof ApiError && error.status === 404;
+      if (!unsupported) console.error(`Summary error for session ${sessionId}:`, error);
+      updateDocument(id, unsupported
+        ? { summarizing: undefined, summary: { text: "", questions: [] } }
+        : { summarizing: undefined });
+    }
+  };
+
+  // Restored sessions may have expired on the backend since the last visit
+  const revalidateDocuments = (restored: Document[]) => {
+    for (const doc of restored) {
+      if (!doc.uploaded || !doc.sessionId) continue;
+      const { sessionId } = doc;
+      api.getSessionInfo(sessionId).then(() => {
+        // Documents saved before summaries existed, or closed while one was being written
+        if (!doc.summary) summarizeDocument(doc.id, sessionId);
+      }, error => {
+        if (!(error instanceof ApiError && error.status === 404)) return;
+        updateDocument(doc.id, { uploaded: false, selected: false, error: t("documents.sessionExpired") });
+      });
+    }
+  };
+
+  const uploadDocument = async (id: string, file: File, type: DocumentType) => {
+    const signal = uploadControllers.current.get(id)?.signal;
+    // Cancelled while still queued
+    if (!signal || signal.aborted) return;
+    let sessionId: string | undefined;
+
+    try {
+      // Step 1: Create session
+      updateDocument(id, { phase: "session", progress: 0 });
+      ({ session_id: sessionId } = await api.createSession({ signal }));
+
+      // Step 2: Upload to the endpoint for this format, then wait for the server to index it
+      updateDocument(id, { phase: "uploading", sessionId });
+      const uploadOptions: UploadOptions = {
+        signal,
+        password: uploadPasswords.current.get(id),
+        onProgress: ({ loaded, total }) => updateDocument(id, loaded >= total
+          ? { phase: "processing", progress: 100 }
+          : { progress: Math.round(loaded / total * 100) })
+      };
+      const uploadData = type.endpoint === "pdf"
+        ? await api.uploadPdf(sessionId, file, uploadOptions)
+        : await api.uploadDocument(sessionId, await toUploadFile(file, type), uploadOptions);
+
+      // Step 3: Complete
+      updateDocument(id, { phase: undefined, progress: 100, uploaded: true });
+      setAnnouncement(t("documents.ready", { name: file.name }));
+      summarizeDocument(id, sessionId);
+
+      // Update session info
+      if (uploadData.session_info) {
+        setSessionInfo(uploadData.session_info);
+      }
+
+    } catch (error) {
+      if (isAbortError(error)) {
+        // The document is already gone from the list; drop its half-made session too
+        if (sessionId) api.clearSession(sessionId).catch(() => {});
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : t("errors.unknown");
+      console.error(`Upload error for ${file.name}:`, error);
+      updateDocument(id, { error: errorMessage, phase: undefined, progress: 0, uploaded: false });
+      setApiError(t("errors.uploadFailed", { name: file.name, error: errorMessage }));
+    } finally {
+      uploadControllers.current.delete(id);
+    }
+  };
+
+  const enqueueUpload = (id: string, file: File, type: DocumentType) => {
+    uploadControllers.current.set(id, new AbortController());
+    updateDocument(id, { phase: "queued", awaiting: undefined });
+    uploadQueue.current.add(() => uploadDocument(id, file, type));
+  };
+
+  // Opens a PDF locally first so encrypted and image-only files are caught
+  // before they reach /upload-pdf
+  const inspectDocument = async (id: string, file: File, type: DocumentType, password?: string) => {
+    const controller = new AbortController();
+    uploadControllers.current.set(id, controller);
+    updateDocument(id, { phase: "inspecting", awaiting: undefined });
+
+    try {
+      const result = await inspectPdf(file, password);
+      // Cancelled while inspecting: the document is already gone
+      if (controller.signal.aborted) return;
+      uploadControllers.current.delete(id);
+      if (result.status === "password") {
+        updateDocument(id, { phase: undefined, awaiting: result.incorrect ? "wrong-password" : "password" });
+        return;
+      }
+      if (password) uploadPasswords.current.set(id, password);
+
+      const tooLong = checkPageCount(result.inspection.pageCount, policy);
+      if (tooLong) {
+        setDocuments(prev => prev.filter(d => d.id !== id));
+        setRejections(prev => [...prev, { id: createId(), fileName: file.name, violations: [tooLong] }]);
+        return;
+      }
+
+      const warning = inspectionWarning(result.inspection);
+      if (warning?.level === "block") {
+        updateDocument(id, { phase: undefined, awaiting: "confirmation", inspection: result.inspection });
+      } else {
+        updateDocument(id, { inspection: result.inspection });
+        enqueueUpload(id, file, type);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      uploadControllers.current.delete(id);
+      // If pdf.js can't parse it, the backend won't either
+      const errorMessage = error instanceof Error ? error.message : t("errors.unknown");
+      console.error(`Inspection error for ${file.name}:`, error);
+      updateDocument(id, { phase: undefined, error: t("errors.pdfUnreadable", { error: errorMessage }) });
+    }
+  };
+
+  // PDFs are inspected first; other formats go straight to the queue
+  const startUpload = (id: string, file: File, type: DocumentType) => {
+    if (type.id === "pdf") {
+      inspectDocument(id, file, type, uploadPasswords.current.get(id));
+    } else {
+      enqueueUpload(id, file, type);
+    }
+  };
+
+  const unlockDocument = (doc: Document, password: string) => {
+    if (doc.file) inspectDocument(doc.id, doc.file, getDocumentType(doc.type), password);
+  };
+
+  // The user chose to upload despite an inspection warning
+  const confirmUpload = (doc: Document) => {
+    if (doc.file) enqueueUpload(doc.id, doc.file, getDocumentType(doc.type));
+  };
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files) return;
+
+    setApiError("");
+    setRejections([]);
+
+    // Files accepted earlier in this batch count towards the limits too
+    const known = new Map(documents.flatMap(d => d.hash ? [[d.hash, d.name] as const] : []));
+    let documentCount = documents.length;
+    let focusMoved = false;
+
+    for (const file of Array.from(files)) {
+      // Validate against the upload policy, collecting every violation
+      const { typeId, hash, violations } = await checkFile(file, policy, { known, documentCount });
+      if (violations.length || !typeId) {
+        setRejections(prev => [...prev, { id: createId(), fileName: file.name, violations }]);
+        continue;
+      }
+      if (hash) known.set(hash, file.name);
+      documentCount++;
+      const type = getDocumentType(typeId);
+
+      const doc: Document = {
+        id: createId(),
+        name: file.name,
+        size: file.size,
+        type: type.id,
+        hash,
+        uploaded: false,
+        progress: 0,
+        selected: false,
+        phase: type.id === "pdf" ? "inspecting" : "queued",
+        file
+      };
+
+      setDocuments(prev => [...prev, doc]);
+      // Focus follows the first new document so its progress can be followed
+      if (!focusMoved) focusDocumentRef.current = doc.id;
+      focusMoved = true;
+      startUpload(doc.id, file, type);
+    }
+  };
+
+  const cancelUpload = (id: string) => {
+    uploadControllers.current.get(id)?.abort();
+    uploadPasswords.current.delete(id);
+    setDocuments(prev => prev.filter(d => d.id !== id));
+  };
+
+  // Re-runs a failed upload from the file kept client-side, in a fresh session
+  const retryUpload = (doc: Document) => {
+    if (!doc.file) return;
+    if (doc.sessionId) api.clearSession(doc.sessionId).catch(() => {});
+    updateDocument(doc.id, { error: undefined, sessionId: undefined, progress: 0 });
+    startUpload(doc.id, doc.file, getDocumentType(doc.type));
+  };
+
+  const removeDocument = async (id: string, sessionId?: string) => {
+    const originalDocuments = [...documents];
+
+    // Optimistically remove from UI; focus moves off the vanished card
+    setDocuments(prev => prev.filter(d => d.id !== id));
+    document.getElementById("documents-heading")?.focus();
+
+    try {
+      if (sessionId) {
+        try {
+          await api.clearSession(sessionId);
+        } catch (error) {
+          // An expired session is already gone, which is what we wanted
+          if (!(error instanceof ApiError && error.status === 404)) throw error;
+        }
+      }
+
+      // A document still waiting for its password, or part way through inspection,
+      // leaves nothing behind: no password, no pending work, no open viewer
+      uploadControllers.current.get(id)?.abort();
+      uploadControllers.current.delete(id);
+      uploadPasswords.current.delete(id);
+      setViewer(prev => prev?.docId === id ? null : prev);
+
+      // Clear session info if this was the selected document
+      const removedDoc = originalDocuments.find(d => d.id === id);
+      if (removedDoc?.selected) {
+        setSessionInfo(null);
+      }
+
+      // Conversations can't continue without their documents; imported transcripts never had any
+      setConversations(prev => prev
+        .map(c => ({ ...c, documentIds: c.documentIds.filter(docId => docId !== id) }))
+        .filter(c => c.readOnly || c.documentIds.length > 0)
+      );
+
+    } catch (error) {
+      // Revert the optimistic update on error
+      setDocuments(originalDocuments);
+      const errorMessage = error instanceof Error ? error.message : t("errors.unknown");
+      setApiError(t("errors.removeFailed", { error: errorMessage }));
+      console.error("Remove document error:", error);
+    }
+  };
+
+  // Stops every upload and inspection, e.g. on sign-out
+  const cancelAllUploads = () => uploadControllers.current.forEach(controller => controller.abort());
+
+  const passwordFor = useCallback((id: string) => uploadPasswords.current.get(id), []);
+
+  return {
+    addFiles, unlockDocument, confirmUpload, retryUpload, cancelUpload, removeDocument, revalidateDocuments,
+    cancelAllUploads, passwordFor
+  };
+}
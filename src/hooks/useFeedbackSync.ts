@@ -0,0 +1,87 @@
+import { useMemo, useRef } from "react";
+import { api, ApiError, type FeedbackRating } from "@/lib/api";
+import { useChatStore } from "@/store/chatStore";
+import { parentIdOf } from "@/lib/conversationTree";
+import { conversationDocumentNames, conversationDocuments } from "@/lib/workspace";
+import type { Conversation, Feedback, Message } from "@/types/chat";
+
+/**
+ * Answer ratings and comments for `activeConversation`. Every rating is kept
+ * in the store and posted to the backend's `/feedback` route; the ones that
+ * fail to send wait for `syncFeedback` to try again, and none are sent once
+ * the backend turns out not to have the route.
+ */
+export function useFeedbackSync(activeConversation: Conversation | undefined) {
+  const { documents, feedback, setFeedback, setFeedbackDraft } = useChatStore();
+  const feedbackByMessage = useMemo(() => new Map(feedback.map(f => [f.messageId, f])), [feedback]);
+  // Set once the backend turns out not to have a feedback endpoint
+  const feedbackUnsupported = useRef(false);
+
+  // Sends ratings the backend hasn't accepted yet; the rest wait for the next reconnect
+  const syncFeedback = async (entries: Feedback[]) => {
+    for (const entry of entries) {
+      if (entry.synced || feedbackUnsupported.current) continue;
+      try {
+        await Promise.all(entry.sessionIds.map(sessionId => api.sendFeedback({
+          session_id: sessionId,
+          message_id: entry.messageId,
+          question: entry.question,
+          answer: entry.answer,
+          rating: entry.rating,
+          comment: entry.comment,
+          latency_ms: entry.latencyMs
+        })));
+        // A rating changed in the meantime still needs sending
+        setFeedback(prev => prev.map(f => f === entry ? { ...f, synced: true } : f));
+      } catch (error) {
+        // A 404 without the backend's own error body means the route doesn't exist
+        if (error instanceof ApiError && (error.status === 405 || (error.status === 404 && !error.serverMessage))) {
+          feedbackUnsupported.current = true;
+        } else {
+          console.error("Failed to send feedback:", error);
+        }
+        return;
+      }
+    }
+  };
+
+  const storeFeedback = (entry: Feedback) => {
+    setFeedback(prev => [...prev.filter(f => f.messageId !== entry.messageId), entry]);
+    syncFeedback([entry]);
+  };
+
+  // Rates an answer, or clears the rating when the same thumb is clicked again
+  const rateAnswer = (message: Message, rating: FeedbackRating) => {
+    if (!activeConversation) return;
+    const existing = feedbackByMessage.get(message.id);
+    if (existing?.rating === rating) {
+      setFeedback(prev => prev.filter(f => f.messageId !== message.id));
+      setFeedbackDraft(null);
+      return;
+    }
+    const question = activeConversation.messages.find(m => m.id === parentIdOf(activeConversation, message));
+    storeFeedback({
+      messageId: message.id,
+      conversationId: activeConversation.id,
+      documentNames: conversationDocumentNames(activeConversation, documents),
+      sessionIds: conversationDocuments(activeConversation, documents).map(d => d.sessionId),
+      question: question?.content ?? "",
+      answer: message.content,
+      rating,
+      comment: existing?.comment,
+      latencyMs: message.latencyMs,
+      createdAt: new Date(),
+      synced: false
+    });
+    setFeedbackDraft({ messageId: message.id, comment: existing?.comment ?? "" });
+  };
+
+  const commentOnAnswer = (messageId: string, comment: string) => {
+    setFeedbackDraft(null);
+    const existing = feedbackByMessage.get(messageId);
+    if (!existing || comment.trim() === (existing.comment ?? "")) return;
+    storeFeedback({ ...existing, comment: comment.trim() || undefined, synced: false });
+  };
+
+  return { syncFeedback, rateAnswer, commentOnAnswer };
+}
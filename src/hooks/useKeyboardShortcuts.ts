@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+import { eventToBinding, isPlainKey, isTypingTarget, type Bindings, type CommandId } from "@/lib/shortcuts";
+
+/**
+ * Runs the handler bound to each keydown on the window. Plain-key shortcuts
+ * ("/", "?") are ignored while the user is typing in a field.
+ */
+export function useKeyboardShortcuts(bindings: Bindings, handlers: Record<CommandId, () => void>) {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const commands = new Map(
+      (Object.entries(bindings) as [CommandId, string | null][])
+        .flatMap(([id, binding]) => binding ? [[binding, id] as const] : [])
+    );
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const binding = eventToBinding(e);
+      const id = binding && commands.get(binding);
+      if (!id || (isPlainKey(binding) && isTypingTarget(e.target))) return;
+      e.preventDefault();
+      handlersRef.current[id]();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [bindings]);
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { getLocale, localeDirection, setLocale, subscribeLocale } from "@/lib/i18n";
+
+/**
+ * The current locale. Components that render translated text call this so
+ * they re-render when the user switches language; the strings themselves
+ * come from `t`.
+ */
+export function useLocale() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, dir: localeDirection(locale), setLocale };
+}
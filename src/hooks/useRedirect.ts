@@ -0,0 +1,14 @@
+import { useNavigate } from "react-router";
+
+/**
+ * Follows a URL from the sign-in flow: pages of this app (the callback, the
+ * mock identity provider) are opened by the router, anything else by the browser.
+ */
+export function useRedirect() {
+  const navigate = useNavigate();
+  return (url: string) => {
+    const target = new URL(url, window.location.origin);
+    if (target.origin === window.location.origin) navigate(`${target.pathname}${target.search}`, { replace: true });
+    else window.location.assign(target);
+  };
+}
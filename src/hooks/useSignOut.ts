@@ -0,0 +1,29 @@
+import { api } from "@/lib/api";
+import { auth } from "@/lib/auth";
+import { deleteWorkspace } from "@/lib/storage";
+import { resetChatStore, useChatStore } from "@/store/chatStore";
+import { hasSession } from "@/lib/workspace";
+
+/**
+ * Signs `owner` out: `stopWork` aborts whatever is still running, then the
+ * user's backend sessions are ended and everything cached for them here is
+ * forgotten. Does nothing when nobody is signed in.
+ */
+export function useSignOut(owner: string | null, stopWork: () => void) {
+  const documents = useChatStore(state => state.documents);
+
+  return async () => {
+    if (!auth || !owner) return;
+    stopWork();
+    const sessionIds = new Set(documents.filter(hasSession).map(d => d.sessionId));
+    await Promise.allSettled([...sessionIds].map(id => api.clearSession(id)));
+    const logoutUrl = await auth.signOut();
+    resetChatStore();
+    try {
+      await deleteWorkspace(owner);
+    } catch (error) {
+      console.error("Failed to delete workspace:", error);
+    }
+    if (logoutUrl) window.location.assign(logoutUrl);
+  };
+}
@@ -0,0 +1,53 @@
+import { useChatStore } from "@/store/chatStore";
+import type { ExportFormat } from "@/components/chatapp/ChatHeader";
+import {
+  toMarkdown, toTranscript, toPdf, parseTranscript, downloadBlob, exportFileName
+} from "@/lib/transcript";
+import { conversationDocumentNames, createId } from "@/lib/workspace";
+import { t } from "@/lib/i18n";
+import type { Conversation, Message } from "@/types/chat";
+
+/**
+ * Exports the branch of `activeConversation` on screen (`messages`) as
+ * Markdown, JSON or PDF, and imports JSON transcripts as read-only
+ * conversations, handing each one to `onImported` to open.
+ */
+export function useTranscripts(
+  activeConversation: Conversation | undefined,
+  messages: Message[],
+  onImported: (conversation: Conversation) => void
+) {
+  const { documents, setConversations, setApiError } = useChatStore();
+
+  const exportConversation = async (format: ExportFormat) => {
+    if (!activeConversation) return;
+    const names = conversationDocumentNames(activeConversation, documents);
+    try {
+      // Only the branch on screen is exported
+      const thread = { ...activeConversation, messages };
+      const blob = format === "pdf" ? await toPdf(thread, names)
+        : format === "json" ? new Blob([JSON.stringify(toTranscript(thread, names), null, 2)], { type: "application/json" })
+        : new Blob([toMarkdown(thread, names)], { type: "text/markdown" });
+      downloadBlob(blob, exportFileName(activeConversation, format));
+    } catch (error) {
+      console.error("Export failed:", error);
+      setApiError(t("errors.exportFailed", { error: error instanceof Error ? error.message : t("errors.unknown") }));
+    }
+  };
+
+  const importTranscript = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const conversation = parseTranscript(await file.text(), createId());
+      setConversations(prev => [conversation, ...prev]);
+      onImported(conversation);
+      setApiError("");
+    } catch (error) {
+      console.error(`Import error for ${file.name}:`, error);
+      setApiError(t("errors.importFailed", { name: file.name, error: error instanceof Error ? error.message : t("errors.unknown") }));
+    }
+  };
+
+  return { exportConversation, importTranscript };
+}
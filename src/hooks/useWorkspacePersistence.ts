@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  loadWorkspace, selectWorkspace, saveDocument, deleteDocument, saveConversation, deleteConversation,
+  saveFeedback, deleteFeedback, toStoredDocument, type Workspace
+} from "@/lib/storage";
+import type { Conversation, Document, Feedback } from "@/types/chat";
+
+// Conversations change on every streamed token, so writes are batched
+const SAVE_DELAY_MS = 500;
+
+// Documents still uploading are not worth restoring
+const isPersistable = (doc: Document) => !!doc.sessionId && (doc.uploaded || !!doc.error);
+
+const logError = (action: string) => (error: unknown) =>
+  console.error(`Failed to ${action}:`, error);
+
+/**
+ * Loads `owner`'s saved workspace (null when nobody signs in) and hands it to
+ * `onRestore`, then mirrors later changes to `documents`, `conversations` and
+ * `feedback` into IndexedDB. Returns whether the restore has finished.
+ */
+export function useWorkspacePersistence(
+  owner: string | null,
+  documents: Document[],
+  conversations: Conversation[],
+  feedback: Feedback[],
+  onRestore: (workspace: Workspace) => void
+) {
+  const [restored, setRestored] = useState(false);
+  const onRestoreRef = useRef(onRestore);
+  // Last persisted state, to write only what changed
+  const savedDocs = useRef(new Map<string, string>());
+  const savedFiles = useRef(new Map<string, File>());
+  const savedConversations = useRef(new Map<string, Conversation>());
+  const savedFeedback = useRef(new Map<string, Feedback>());
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    selectWorkspace(owner);
+    loadWorkspace()
+      .then(workspace => {
+        if (cancelled) return;
+        savedDocs.current = new Map(workspace.documents.map(d => [d.id, JSON.stringify(toStoredDocument(d))]));
+        savedFiles.current = new Map(workspace.documents.flatMap(d => d.file ? [[d.id, d.file] as const] : []));
+        savedConversations.current = new Map(workspace.conversations.map(c => [c.id, c]));
+        savedFeedback.current = new Map(workspace.feedback.map(f => [f.messageId, f]));
+        onRestoreRef.current(workspace);
+      })
+      .catch(logError("restore workspace"))
+      .finally(() => { if (!cancelled) setRestored(true); });
+    return () => { cancelled = true; };
+  }, [owner]);
+
+  useEffect(() => {
+    if (!restored) return;
+    for (const doc of documents) {
+      if (!isPersistable(doc)) continue;
+      const snapshot = JSON.stringify(toStoredDocument(doc));
+      // Status, summary and settings changes rewrite the metadata only, not the file
+      const file = doc.file && savedFiles.current.get(doc.id) !== doc.file ? doc.file : undefined;
+      if (savedDocs.current.get(doc.id) !== snapshot || file) {
+        saveDocument(doc, file).catch(logError(`save ${doc.name}`));
+        savedDocs.current.set(doc.id, snapshot);
+        if (file) savedFiles.current.set(doc.id, file);
+      }
+    }
+    // Documents mid-upload keep their stored copy; only removed ones are deleted
+    const ids = new Set(documents.map(d => d.id));
+    for (const id of [...savedDocs.current.keys()]) {
+      if (!ids.has(id)) {
+        deleteDocument(id).catch(logError("delete document"));
+        savedDocs.current.delete(id);
+        savedFiles.current.delete(id);
+      }
+    }
+  }, [documents, restored]);
+
+  useEffect(() => {
+    if (!restored) return;
+    const timer = setTimeout(() => {
+      const current = new Map(conversations.map(c => [c.id, c]));
+      for (const conversation of conversations) {
+        if (savedConversations.current.get(conversation.id) !== conversation) {
+          saveConversation(conversation).catch(logError("save conversation"));
+        }
+      }
+      for (const id of savedConversations.current.keys()) {
+        if (!current.has(id)) deleteConversation(id).catch(logError("delete conversation"));
+      }
+      savedConversations.current = current;
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [conversations, restored]);
+
+  useEffect(() => {
+    if (!restored) return;
+    const current = new Map(feedback.map(f => [f.messageId, f]));
+    for (const entry of feedback) {
+      if (savedFeedback.current.get(entry.messageId) !== entry) {
+        saveFeedback(entry).catch(logError("save feedback"));
+      }
+    }
+    for (const id of savedFeedback.current.keys()) {
+      if (!current.has(id)) deleteFeedback(id).catch(logError("delete feedback"));
+    }
+    savedFeedback.current = current;
+  }, [feedback, restored]);
+
+  return restored;
+}
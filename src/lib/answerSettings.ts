@@ -0,0 +1,72 @@
+import type { AnswerStyle, ChatRequest } from "@/lib/api";
+import { formatNumber, t } from "@/lib/i18n";
+
+// How answers about a document are produced. Saved with the document, sent
+// with every question about it and recorded on each answer.
+export interface AnswerSettings {
+  // Empty for the backend's own default model
+  model: string;
+  temperature: number;
+  // Chunks retrieved from the document for each question
+  topK: number;
+  style: AnswerStyle;
+  // Extra instructions for the model; empty for none
+  systemPrompt: string;
+}
+
+export const ANSWER_STYLES: AnswerStyle[] = ["concise", "balanced", "detailed"];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.1 };
+export const TOP_K_RANGE = { min: 1, max: 20 };
+
+export const DEFAULT_ANSWER_SETTINGS: AnswerSettings = {
+  model: "",
+  temperature: 0.7,
+  topK: 4,
+  style: "balanced",
+  systemPrompt: ""
+};
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Saved settings may predate a field or hold values outside today's ranges
+export const resolveAnswerSettings = (saved?: Partial<AnswerSettings>): AnswerSettings => ({
+  model: typeof saved?.model === "string" ? saved.model : DEFAULT_ANSWER_SETTINGS.model,
+  temperature: clamp(saved?.temperature, TEMPERATURE_RANGE, DEFAULT_ANSWER_SETTINGS.temperature),
+  topK: Math.round(clamp(saved?.topK, TOP_K_RANGE, DEFAULT_ANSWER_SETTINGS.topK)),
+  style: saved?.style && ANSWER_STYLES.includes(saved.style) ? saved.style : DEFAULT_ANSWER_SETTINGS.style,
+  systemPrompt: typeof saved?.systemPrompt === "string" ? saved.systemPrompt : DEFAULT_ANSWER_SETTINGS.systemPrompt
+});
+
+export const isDefaultSettings = (settings: AnswerSettings) =>
+  (Object.keys(DEFAULT_ANSWER_SETTINGS) as (keyof AnswerSettings)[])
+    .every(key => settings[key] === DEFAULT_ANSWER_SETTINGS[key]);
+
+/**
+ * Models offered in the picker. The backend can list them in `/health`;
+ * otherwise VITE_MODELS (comma-separated) applies. An empty list leaves only
+ * the server default.
+ */
+export const availableModels = (fromBackend?: unknown) => {
+  const source = Array.isArray(fromBackend) ? fromBackend : import.meta.env.VITE_MODELS?.split(",") ?? [];
+  const models = source.filter((model): model is string => typeof model === "string").map(model => model.trim());
+  return [...new Set(models.filter(Boolean))];
+};
+
+// The request fields for these settings; the model and prompt are left out when unset
+export const toChatParameters = (settings: AnswerSettings): Partial<ChatRequest> => ({
+  model: settings.model || undefined,
+  temperature: settings.temperature,
+  top_k: settings.topK,
+  answer_style: settings.style,
+  system_prompt: settings.systemPrompt.trim() || undefined
+});
+
+export const describeSettings = (settings: AnswerSettings) => [
+  settings.model || t("answerSettings.defaultModel"),
+  t("answerSettings.temperatureValue", { value: formatNumber(settings.temperature) }),
+  t("answerSettings.chunks", { count: settings.topK }),
+  t(`answerSettings.style.${settings.style}`),
+  settings.systemPrompt.trim() && t("answerSettings.customPrompt")
+].filter(Boolean).join(" · ");
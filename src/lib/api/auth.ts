@@ -0,0 +1,21 @@
+import { ApiError } from "./errors";
+import type { AccessTokenProvider } from "./types";
+
+/**
+ * Runs `send` with the current access token, and once more with a refreshed
+ * token if the backend answers 401. Without a provider it runs once, unsigned.
+ */
+export async function withAccessToken<T>(
+  auth: AccessTokenProvider | undefined,
+  send: (token: string | null) => Promise<T>
+): Promise<T> {
+  const token = auth ? await auth.getAccessToken() : null;
+  try {
+    return await send(token);
+  } catch (error) {
+    if (!auth || !(error instanceof ApiError) || error.status !== 401) throw error;
+    const refreshed = await auth.refreshAccessToken();
+    if (!refreshed) throw error;
+    return send(refreshed);
+  }
+}
@@ -0,0 +1,21 @@
+export type ApiErrorKind = "http" | "network" | "timeout" | "aborted";
+
+// Single error type thrown by every ApiClient method
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  // HTTP status code, or 0 when no response was received
+  readonly status: number;
+  // The backend's `error` field, when it sent one
+  readonly serverMessage?: string;
+
+  constructor(kind: ApiErrorKind, message: string, status = 0, serverMessage?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.serverMessage = serverMessage;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof ApiError && error.kind === "aborted";
@@ -0,0 +1,194 @@
+import { withAccessToken } from "./auth";
+import { ApiError } from "./errors";
+import type { AccessTokenProvider, ApiClient, ChatRequest, FeedbackRequest, RequestOptions, SessionInfo, Source, UploadOptions } from "./types";
+
+export interface FakeClientOptions {
+  // Simulated round-trip time for every call
+  latencyMs?: number;
+  // Delay between streamed tokens
+  tokenDelayMs?: number;
+  // Bearer tokens to send, as the HTTP client would
+  auth?: AccessTokenProvider;
+  // Makes the fake require a bearer token: returns the user it belongs to, or
+  // null to answer 401. Each user then only sees their own sessions.
+  verifyToken?: (token: string) => string | null;
+}
+
+interface FakeSession {
+  info: SessionInfo;
+  files: File[];
+  owner?: string;
+}
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError("aborted", "Request was cancelled"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError("aborted", "Request was cancelled"));
+    };
+    // Streams share one signal across many delays; don't leave a listener behind per token
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const notFound = (sessionId: string) =>
+  new ApiError("http", `Session ${sessionId} not found`, 404, `Session ${sessionId} not found`);
+
+const unauthorized = () =>
+  new ApiError("http", "Sign in to continue", 401, "Sign in to continue");
+
+// In-memory stand-in for the Python backend, used for offline development and tests
+export function createFakeClient({
+  latencyMs = 300,
+  tokenDelayMs = 40,
+  auth,
+  verifyToken
+}: FakeClientOptions = {}): ApiClient {
+  const sessions = new Map<string, FakeSession>();
+  const feedback: FeedbackRequest[] = [];
+
+  // Other users' sessions look the same as missing ones
+  const getSession = (sessionId: string, user?: string) => {
+    const session = sessions.get(sessionId);
+    if (!session || session.owner !== user) throw notFound(sessionId);
+    return session;
+  };
+
+  const identify = (token: string | null) => {
+    if (!verifyToken) return undefined;
+    const user = token ? verifyToken(token) : null;
+    if (!user) throw unauthorized();
+    return user;
+  };
+
+  const respond = <T>(options: RequestOptions | undefined, produce: (user?: string) => T) =>
+    withAccessToken(auth, async token => {
+      await delay(latencyMs, options?.signal);
+      return produce(identify(token));
+    });
+
+  const uploadFile = (sessionId: string, file: File, accept: (file: File) => boolean, user?: string) => {
+    const session = getSession(sessionId, user);
+    if (!accept(file)) {
+      throw new ApiError("http", `Unsupported file type: ${file.name}`, 400, `Unsupported file type: ${file.name}`);
+    }
+    session.files.push(file);
+    session.info = {
+      ...session.info,
+      total_documents: session.files.length,
+      has_vectorstore: true,
+      has_chain: true,
+      document_names: session.files.map(f => f.name)
+    };
+    return { message: `Processed ${file.name}`, session_info: session.info };
+  };
+
+  // Reports the transfer in a few steps, then "processes" for one round trip
+  const transfer = async <T>(file: File, options: UploadOptions | undefined, produce: (user?: string) => T) => {
+    const steps = 5;
+    for (let step = 1; step <= steps; step++) {
+      await delay(latencyMs / steps, options?.signal);
+      options?.onProgress?.({ loaded: Math.round(file.size * step / steps), total: file.size });
+    }
+    return respond(options, produce);
+  };
+
+  const answer = ({ session_id: sessionId, question, top_k: topK }: ChatRequest, user?: string) => {
+    const session = getSession(sessionId, user);
+    if (!session.info.has_chain) {
+      throw new ApiError("http", "No documents uploaded for this session", 400, "No documents uploaded for this session");
+    }
+    session.info = {
+      ...session.info,
+      chat_history_length: session.info.chat_history_length + 2
+    };
+    // One excerpt per file, as many as the question asked for
+    const sources: Source[] = session.files.slice(0, topK).map(f => ({
+      content: `Excerpt from ${f.name} relevant to "${question}".`,
+      source: f.name,
+      type: f.name.split(".").pop() ?? "pdf"
+    }));
+    return {
+      answer: `This is a simulated answer to "${question}" based on ${session.info.document_names.join(", ")} ${sources.map((_, i) => `[${i + 1}]`).join("")}.`,
+      sources
+    };
+  };
+
+  return {
+    // Open to everyone, like the real health check
+    health: async (options) => {
+      await delay(latencyMs, options?.signal);
+      return { status: "healthy", mode: "fake" };
+    },
+
+    createSession: (options) => respond(options, (user) => {
+      const sessionId = crypto.randomUUID();
+      sessions.set(sessionId, {
+        owner: user,
+        files: [],
+        info: {
+          session_id: sessionId,
+          total_documents: 0,
+          has_vectorstore: false,
+          has_chain: false,
+          document_names: [],
+          chat_history_length: 0,
+          created_at: new Date().toISOString()
+        }
+      });
+      return { session_id: sessionId };
+    }),
+
+    uploadPdf: (sessionId, file, options) =>
+      transfer(file, options, (user) => uploadFile(sessionId, file, f => f.type === "application/pdf", user)),
+
+    uploadDocument: (sessionId, file, options) =>
+      transfer(file, options, (user) => uploadFile(sessionId, file, f => f.type !== "application/pdf", user)),
+
+    chat: (request, options) =>
+      respond(options, (user) => answer(request, user)),
+
+    chatStream: async (request, { onToken, ...options }) => {
+      const response = await respond(options, (user) => answer(request, user));
+      for (const token of response.answer.match(/\S+\s*/g) ?? []) {
+        await delay(tokenDelayMs, options.signal);
+        onToken(token);
+      }
+      return response;
+    },
+
+    getSessionInfo: (sessionId, options) => respond(options, (user) => getSession(sessionId, user).info),
+
+    clearSession: (sessionId, options) => respond(options, (user) => {
+      getSession(sessionId, user);
+      sessions.delete(sessionId);
+      return { message: `Session ${sessionId} cleared` };
+    }),
+
+    sendFeedback: (body, options) => respond(options, (user) => {
+      getSession(body.session_id, user);
+      feedback.push(body);
+      return { message: "Feedback recorded" };
+    }),
+
+    summarize: ({ session_id }, options) => respond(options, (user) => {
+      const { info } = getSession(session_id, user);
+      const names = info.document_names.join(", ");
+      return {
+        summary: `This is a simulated summary of ${names}. It covers the main topics, decisions and figures in a few sentences.`,
+        suggested_questions: [
+          `What is ${names} about?`,
+          "What are the key points?",
+          "Which dates or figures are mentioned?"
+        ]
+      };
+    })
+  };
+}
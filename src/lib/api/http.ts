@@ -0,0 +1,299 @@
+import { withAccessToken } from "./auth";
+import { ApiError } from "./errors";
+import { readChatStream } from "./stream";
+import type {
+  AccessTokenProvider, ApiClient, ChatRequest, ChatResponse, ClearSessionResponse, CreateSessionResponse,
+  FeedbackResponse, HealthResponse, RequestOptions, SessionInfo, Source, SummaryResponse, UploadOptions, UploadPdfResponse
+} from "./types";
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  timeoutMs?: number;
+  // Signs every request with a bearer token and refreshes it on 401
+  auth?: AccessTokenProvider;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// Uploads embed the whole PDF server-side, so they get a longer default. The
+// timer restarts on every progress event, so slow links aren't cut off mid-transfer.
+const UPLOAD_TIMEOUT_MS = 120_000;
+
+// Idempotent requests are retried on connection failures and gateway errors,
+// waiting RETRY_DELAY_MS, then twice that, and so on
+const DEFAULT_RETRIES = 2;
+const RETRY_DELAY_MS = 500;
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE"];
+
+const isRetryable = (error: ApiError) =>
+  error.kind === "network" || error.kind === "timeout" || [502, 503, 504].includes(error.status);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError("aborted", "Request was cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const readServerMessage = async (res: Response) => {
+  try {
+    const data = await res.json();
+    return typeof data?.error === "string" ? data.error : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Links the caller's signal (if any) with a timeout into a single signal
+const withTimeout = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clearTimer: () => clearTimeout(timer),
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+};
+
+type Timeout = ReturnType<typeof withTimeout>;
+
+const toApiError = (error: unknown, path: string, timeout: Timeout) => {
+  if (error instanceof ApiError) return error;
+  if (timeout.timedOut()) return new ApiError("timeout", `Request to ${path} timed out`);
+  if (timeout.signal.aborted) return new ApiError("aborted", "Request was cancelled");
+  return new ApiError("network", error instanceof Error ? error.message : "Network error");
+};
+
+// fetch can't report upload progress, so multipart uploads go through XHR
+const xhrUpload = <T>(
+  url: string,
+  body: FormData,
+  token: string | null,
+  { signal, timeoutMs = UPLOAD_TIMEOUT_MS, onProgress }: UploadOptions
+) =>
+  new Promise<T>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const arm = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        xhr.abort();
+        fail(new ApiError("timeout", `Upload to ${url} timed out`));
+      }, timeoutMs);
+    };
+    const onAbort = () => {
+      xhr.abort();
+      fail(new ApiError("aborted", "Request was cancelled"));
+    };
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const fail = (error: ApiError) => {
+      cleanup();
+      reject(error);
+    };
+
+    if (signal?.aborted) {
+      reject(new ApiError("aborted", "Request was cancelled"));
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    xhr.open("POST", url);
+    if (token) xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    xhr.responseType = "json";
+    xhr.upload.onprogress = (e) => {
+      arm();
+      if (e.lengthComputable) onProgress?.({ loaded: e.loaded, total: e.total });
+    };
+    xhr.upload.onload = () => arm();
+    xhr.onerror = () => fail(new ApiError("network", `Upload to ${url} failed`));
+    xhr.onload = () => {
+      cleanup();
+      const data = xhr.response;
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(data as T);
+        return;
+      }
+      const serverMessage = typeof data?.error === "string" ? data.error : undefined;
+      reject(new ApiError("http", serverMessage || `${xhr.status}: ${xhr.statusText}`, xhr.status, serverMessage));
+    };
+
+    arm();
+    xhr.send(body);
+  });
+
+export function createHttpClient({ baseUrl, timeoutMs = DEFAULT_TIMEOUT_MS, auth }: HttpClientOptions): ApiClient {
+  const send = (path: string, init: RequestInit, signal: AbortSignal) =>
+    withAccessToken(auth, async token => {
+      const headers = new Headers(init.headers);
+      if (token) headers.set("Authorization", `Bearer ${token}`);
+      const res = await fetch(`${baseUrl}${path}`, { ...init, headers, signal });
+      if (!res.ok) {
+        const serverMessage = await readServerMessage(res);
+        throw new ApiError(
+          "http",
+          serverMessage || `${res.status}: ${res.statusText}`,
+          res.status,
+          serverMessage
+        );
+      }
+      return res;
+    });
+
+  const upload = (path: string, body: FormData, options: UploadOptions = {}) =>
+    withAccessToken(auth, token => xhrUpload<UploadPdfResponse>(`${baseUrl}${path}`, body, token, options));
+
+  const attempt = async <T>(path: string, init: RequestInit, options: RequestOptions): Promise<T> => {
+    const timeout = withTimeout(options.timeoutMs ?? timeoutMs, options.signal);
+    try {
+      const res = await send(path, init, timeout.signal);
+      return (await res.json()) as T;
+    } catch (error) {
+      throw toApiError(error, path, timeout);
+    } finally {
+      timeout.dispose();
+    }
+  };
+
+  const request = async <T>(path: string, init: RequestInit, options: RequestOptions = {}): Promise<T> => {
+    const retries = IDEMPOTENT_METHODS.includes(init.method ?? "GET") ? options.retries ?? DEFAULT_RETRIES : 0;
+    for (let n = 0; ; n++) {
+      try {
+        return await attempt<T>(path, init, options);
+      } catch (error) {
+        if (n >= retries || !(error instanceof ApiError) || !isRetryable(error)) throw error;
+        await sleep(RETRY_DELAY_MS * 2 ** n, options.signal);
+      }
+    }
+  };
+
+  const chat = (body: ChatRequest, options?: RequestOptions) =>
+    request<ChatResponse>("/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    }, options);
+
+  return {
+    health: (options) =>
+      request<HealthResponse>("/health", { method: "GET" }, options),
+
+    createSession: (options) =>
+      request<CreateSessionResponse>("/create-session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" }
+      }, options),
+
+    uploadPdf: (sessionId, file, options) => {
+      const formData = new FormData();
+      formData.append("session_id", sessionId);
+      formData.append("pdf", file);
+      if (options?.password) formData.append("password", options.password);
+      return upload("/upload-pdf", formData, options);
+    },
+
+    uploadDocument: (sessionId, file, options) => {
+      const formData = new FormData();
+      formData.append("session_id", sessionId);
+      formData.append("file", file);
+      return upload("/upload-document", formData, options);
+    },
+
+    chat,
+
+    chatStream: async (body, { onToken, ...options }) => {
+      const path = "/chat/stream";
+      const timeout = withTimeout(options.timeoutMs ?? timeoutMs, options.signal);
+      try {
+        let res: Response;
+        try {
+          res = await send(path, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "text/event-stream, application/x-ndjson"
+            },
+            body: JSON.stringify(body)
+          }, timeout.signal);
+        } catch (error) {
+          // Backends without the streaming route answer in one piece
+          if (error instanceof ApiError && (error.status === 404 || error.status === 405)) {
+            timeout.dispose();
+            const data = await chat(body, options);
+            onToken(data.answer);
+            return data;
+          }
+          throw error;
+        }
+
+        // The timeout only covers waiting for the first byte; answers may take as long as they need
+        timeout.clearTimer();
+        if (!res.body) {
+          throw new ApiError("network", "Streaming responses are not supported by this browser");
+        }
+
+        let answer = "";
+        let sources: Source[] = [];
+        await readChatStream(res.body, res.headers.get("Content-Type") ?? "", (event) => {
+          switch (event.type) {
+            case "token":
+              answer += event.content;
+              onToken(event.content);
+              break;
+            case "sources":
+              sources = event.sources;
+              break;
+            case "error":
+              throw new ApiError("http", event.error, res.status, event.error);
+          }
+        });
+        return { answer, sources };
+      } catch (error) {
+        throw toApiError(error, path, timeout);
+      } finally {
+        timeout.dispose();
+      }
+    },
+
+    getSessionInfo: (sessionId, options) =>
+      request<SessionInfo>(`/session-info/${encodeURIComponent(sessionId)}`, { method: "GET" }, options),
+
+    clearSession: (sessionId, options) =>
+      request<ClearSessionResponse>(`/clear-session/${encodeURIComponent(sessionId)}`, { method: "DELETE" }, options),
+
+    sendFeedback: (body, options) =>
+      request<FeedbackResponse>("/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      }, options),
+
+    summarize: (body, options) =>
+      request<SummaryResponse>("/summary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      }, options)
+  };
+}
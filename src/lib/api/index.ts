@@ -0,0 +1,15 @@
+import { createFakeClient } from "./fake";
+import { createHttpClient } from "./http";
+import { auth, mockIdp } from "@/lib/auth";
+import type { ApiClient } from "./types";
+
+export * from "./types";
+export { ApiError, isAbortError, type ApiErrorKind } from "./errors";
+export { createHttpClient } from "./http";
+export { createFakeClient } from "./fake";
+
+// Set VITE_USE_FAKE_API=true to run the UI without the Python backend. Signed
+// in, every request carries the user's access token.
+export const api: ApiClient = import.meta.env.VITE_USE_FAKE_API === "true"
+  ? createFakeClient({ auth: auth ?? undefined, verifyToken: mockIdp?.verifyAccessToken })
+  : createHttpClient({ baseUrl: import.meta.env.VITE_API_BASE_URL, auth: auth ?? undefined });
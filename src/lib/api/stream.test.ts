@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { readChatStream, type ChatStreamEvent } from "@/lib/api/stream";
+
+const read = async (text: string, contentType: string) => {
+  const events: ChatStreamEvent[] = [];
+  const body = new Response(text).body!;
+  await readChatStream(body, contentType, event => events.push(event));
+  return events;
+};
+
+describe("readChatStream", () => {
+  it("passes bare number and spacing tokens through as text", async () => {
+    const events = await read("data: The fee is\n\ndata:  \n\ndata: 42\n\ndata: [DONE]\n\n", "text/event-stream");
+
+    expect(events).toEqual([
+      { type: "token", content: "The fee is" },
+      { type: "token", content: " " },
+      { type: "token", content: "42" },
+      { type: "done" }
+    ]);
+  });
+
+  it("reads JSON events from NDJSON lines and skips blank ones", async () => {
+    const events = await read('{"type":"token","content":"Net 30"}\n\n{"type":"sources","sources":[]}\n', "application/x-ndjson");
+
+    expect(events).toEqual([
+      { type: "token", content: "Net 30" },
+      { type: "sources", sources: [] }
+    ]);
+  });
+});
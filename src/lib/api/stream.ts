@@ -0,0 +1,68 @@
+import type { Source } from "./types";
+
+// Events emitted by the streaming chat endpoint, one JSON object per SSE
+// `data:` line or per NDJSON line
+export type ChatStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "sources"; sources: Source[] }
+  | { type: "done" }
+  | { type: "error"; error: string };
+
+const parseEvent = (raw: string): ChatStreamEvent | null => {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  if (trimmed === "[DONE]") return { type: "done" };
+  // Some servers send bare text tokens rather than JSON. A token can be
+  // spacing only, or text that happens to be valid JSON such as "42", so only
+  // objects carrying a `type` are events
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (parsed && typeof parsed === "object" && "type" in parsed) return parsed as ChatStreamEvent;
+  } catch {
+    // Not JSON: a text token
+  }
+  return { type: "token", content: raw };
+};
+
+// Splits an SSE block into its `data:` payload, ignoring comments and other fields
+const sseData = (block: string) =>
+  block
+    .split("\n")
+    .filter(line => line.startsWith("data:"))
+    .map(line => line.slice(5).replace(/^ /, ""))
+    .join("\n");
+
+export async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  onEvent: (event: ChatStreamEvent) => void
+) {
+  const isSse = contentType.includes("text/event-stream");
+  const separator = isSse ? /\r?\n\r?\n/ : /\r?\n/;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (chunk: string) => {
+    const event = parseEvent(isSse ? sseData(chunk) : chunk);
+    if (event) onEvent(event);
+  };
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const parts = buffer.split(separator);
+      buffer = parts.pop() ?? "";
+      parts.forEach(flush);
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) flush(buffer);
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
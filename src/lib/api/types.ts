@@ -0,0 +1,161 @@
+// Request/response shapes for the DocuChat backend.
+
+export interface Source {
+  content: string;
+  source: string;
+  type: string;
+  // Zero-based page index, as reported by LangChain's PDF loaders
+  page?: number;
+}
+
+export interface SessionInfo {
+  session_id: string;
+  total_documents: number;
+  has_vectorstore: boolean;
+  has_chain: boolean;
+  document_names: string[];
+  chat_history_length: number;
+  created_at: string;
+}
+
+// Upload limits a backend may announce; every field is optional
+export interface UploadPolicyResponse {
+  max_file_size_mb?: number;
+  max_pages?: number;
+  // How many documents one user's workspace may hold in total
+  max_workspace_documents?: number;
+  // Document type ids, e.g. ["pdf", "docx"]
+  allowed_types?: string[];
+  reject_duplicates?: boolean;
+}
+
+export interface HealthResponse {
+  status: string;
+  upload_policy?: UploadPolicyResponse;
+  // Models a question may ask for by name
+  models?: string[];
+  [key: string]: unknown;
+}
+
+export interface CreateSessionResponse {
+  session_id: string;
+}
+
+export interface UploadPdfResponse {
+  message?: string;
+  session_info?: SessionInfo;
+}
+
+// One earlier exchange of the conversation branch being asked from
+export interface ChatTurn {
+  question: string;
+  answer: string;
+}
+
+export interface ChatRequest {
+  session_id: string;
+  question: string;
+  // Overrides the server's own memory, so edits and regenerations see the right context
+  chat_history?: ChatTurn[];
+  // BCP 47 tag of the language to answer in; left out, the server matches the question
+  language?: string;
+  // Generation settings; each one left out falls back to the server's own
+  model?: string;
+  temperature?: number;
+  // Number of document chunks retrieved for the question
+  top_k?: number;
+  answer_style?: AnswerStyle;
+  // Extra instructions added to the server's prompt
+  system_prompt?: string;
+}
+
+export type AnswerStyle = "concise" | "balanced" | "detailed";
+
+export type FeedbackRating = "up" | "down";
+
+export interface FeedbackRequest {
+  session_id: string;
+  message_id: string;
+  question: string;
+  answer: string;
+  rating: FeedbackRating;
+  comment?: string;
+  // Time from sending the question to the end of the answer
+  latency_ms?: number;
+}
+
+export interface FeedbackResponse {
+  message?: string;
+}
+
+export interface SummaryRequest {
+  session_id: string;
+  // BCP 47 tag of the language to write in; left out, the server uses the document's
+  language?: string;
+}
+
+export interface SummaryResponse {
+  summary: string;
+  // Starter questions the document can answer
+  suggested_questions: string[];
+}
+
+export interface ChatResponse {
+  answer: string;
+  sources: Source[];
+}
+
+export interface ClearSessionResponse {
+  message?: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Overrides the client's default timeout for this call
+  timeoutMs?: number;
+  // Extra attempts after a connection failure; only idempotent requests retry
+  retries?: number;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions extends RequestOptions {
+  // Byte-level progress of the request body; once `loaded` reaches `total`
+  // the server is processing the file
+  onProgress?: (progress: UploadProgress) => void;
+  // Lets the server open a password-protected PDF
+  password?: string;
+}
+
+export interface ChatStreamOptions extends RequestOptions {
+  // Called with each chunk of answer text as it arrives
+  onToken: (token: string) => void;
+}
+
+// Supplies bearer tokens; a client without one sends no Authorization header
+export interface AccessTokenProvider {
+  getAccessToken(): Promise<string | null>;
+  // Called after a 401; resolves with null when the user has to sign in again
+  refreshAccessToken(): Promise<string | null>;
+}
+
+// Contract shared by the HTTP client and the in-memory fake
+export interface ApiClient {
+  health(options?: RequestOptions): Promise<HealthResponse>;
+  createSession(options?: RequestOptions): Promise<CreateSessionResponse>;
+  uploadPdf(sessionId: string, file: File, options?: UploadOptions): Promise<UploadPdfResponse>;
+  // Non-PDF formats (Word, EPUB, plain text); the backend extracts the text
+  uploadDocument(sessionId: string, file: File, options?: UploadOptions): Promise<UploadPdfResponse>;
+  chat(request: ChatRequest, options?: RequestOptions): Promise<ChatResponse>;
+  // Resolves with the full answer and sources once the stream ends
+  chatStream(request: ChatRequest, options: ChatStreamOptions): Promise<ChatResponse>;
+  getSessionInfo(sessionId: string, options?: RequestOptions): Promise<SessionInfo>;
+  clearSession(sessionId: string, options?: RequestOptions): Promise<ClearSessionResponse>;
+  // Optional on the backend; a 404 means it doesn't collect feedback
+  sendFeedback(request: FeedbackRequest, options?: RequestOptions): Promise<FeedbackResponse>;
+  // Optional on the backend; a 404 means it can't summarise documents
+  summarize(request: SummaryRequest, options?: RequestOptions): Promise<SummaryResponse>;
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createFakeClient } from "@/lib/api";
+import { AuthError, createMockIdp, createOidcClient } from "@/lib/auth";
+
+const setup = () => {
+  const idp = createMockIdp();
+  const client = createOidcClient({ issuer: idp.issuer, clientId: "docuchat", fetch: idp.fetch });
+  const api = createFakeClient({ latencyMs: 0, tokenDelayMs: 0, auth: client, verifyToken: idp.verifyAccessToken });
+  const signIn = async (username: string, returnTo?: string) =>
+    client.completeSignIn(idp.authorize(await client.signIn(returnTo), username));
+  return { idp, client, api, signIn };
+};
+
+afterEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+});
+
+describe("sign-in", () => {
+  it("signs in with the code flow and PKCE and returns to the page asked for", async () => {
+    const { idp, client, signIn } = setup();
+
+    const url = new URL(await client.signIn());
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(url.searchParams.get("code_challenge")).toBeTruthy();
+
+    expect(await signIn("Alice", "/doc/abc")).toBe("/doc/abc");
+    expect(client.getSession()?.user).toMatchObject({ id: "alice", name: "Alice" });
+    expect(idp.verifyAccessToken((await client.getAccessToken())!)).toBe("alice");
+  });
+
+  it("refuses a redirect it did not start", async () => {
+    const { idp, client } = setup();
+    const callback = new URL(idp.authorize(await client.signIn(), "alice"));
+    callback.searchParams.set("state", "forged");
+
+    await expect(client.completeSignIn(callback.toString())).rejects.toBeInstanceOf(AuthError);
+    expect(client.getSession()).toBeNull();
+  });
+});
+
+describe("authenticated API", () => {
+  it("refreshes the access token and retries when the backend answers 401", async () => {
+    const { idp, client, api, signIn } = setup();
+    await signIn("alice");
+    const { session_id } = await api.createSession();
+    const firstToken = client.getSession()!.accessToken;
+
+    idp.revokeAccessTokens();
+
+    await expect(api.getSessionInfo(session_id)).resolves.toMatchObject({ session_id });
+    expect(client.getSession()!.accessToken).not.toBe(firstToken);
+  });
+
+  it("rejects requests after sign-out", async () => {
+    const { client, api, signIn } = setup();
+    await signIn("alice");
+    await client.signOut();
+
+    await expect(api.createSession()).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("keeps each user's sessions to themselves", async () => {
+    const { client, api, signIn } = setup();
+    await signIn("alice");
+    const { session_id } = await api.createSession();
+    await client.signOut();
+    await signIn("bob");
+
+    await expect(api.getSessionInfo(session_id)).rejects.toMatchObject({ status: 404 });
+    await expect(api.clearSession(session_id)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,19 @@
+import { createMockIdp } from "./mockIdp";
+import { createOidcClient } from "./oidc";
+import type { AuthClient } from "./types";
+
+export * from "./types";
+export { createOidcClient, type OidcConfig } from "./oidc";
+export { createMockIdp, type MockIdp, type MockIdpOptions } from "./mockIdp";
+
+const env = import.meta.env;
+
+// VITE_USE_MOCK_IDP=true signs in against the built-in provider, for offline development
+export const mockIdp = env.VITE_USE_MOCK_IDP === "true" ? createMockIdp() : null;
+
+// Without an identity provider the app runs signed out, with one shared workspace
+export const auth: AuthClient | null = mockIdp
+  ? createOidcClient({ issuer: mockIdp.issuer, clientId: "docuchat", fetch: mockIdp.fetch })
+  : env.VITE_OIDC_ISSUER
+    ? createOidcClient({ issuer: env.VITE_OIDC_ISSUER, clientId: env.VITE_OIDC_CLIENT_ID ?? "docuchat", scope: env.VITE_OIDC_SCOPE })
+    : null;
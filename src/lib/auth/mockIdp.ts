@@ -0,0 +1,170 @@
+import { base64Url, codeChallenge, decodeJwt, randomString } from "./pkce";
+
+export interface MockIdpOptions {
+  issuer?: string;
+  // Lifetime of access tokens; make it short to watch them being refreshed
+  accessTokenTtlS?: number;
+}
+
+export interface MockIdp {
+  issuer: string;
+  // Serves the discovery document and the token endpoint
+  fetch: typeof fetch;
+  // Signs `username` in, turning the authorization request URL into the redirect back to the app
+  authorize(authorizeUrl: string, username: string): string;
+  // Subject of a live access token from this provider, or null
+  verifyAccessToken(token: string): string | null;
+  // Makes every access token issued so far invalid, as a backend would after a key rotation
+  revokeAccessTokens(): void;
+}
+
+// Authorization codes survive the redirect back to the app
+const CODES_KEY = "docuchat.mockIdp.codes";
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  challenge: string;
+  sub: string;
+  name: string;
+}
+
+type TokenUse = "access" | "id" | "refresh";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const readCodes = (): Record<string, IssuedCode> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(CODES_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+const encodePart = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+/**
+ * A local OpenID Connect provider for development and tests: anyone can sign
+ * in under any name, and its tokens are unsigned JWTs. It checks the PKCE
+ * verifier and the redirect URI like a real provider would, so the client's
+ * side of the flow runs unchanged.
+ */
+export function createMockIdp({
+  issuer = `${window.location.origin}/mock-idp`,
+  accessTokenTtlS = 3600
+}: MockIdpOptions = {}): MockIdp {
+  const tokenEndpoint = `${issuer}/token`;
+  // Bumped to revoke every access token issued before
+  let generation = 0;
+
+  const token = (use: TokenUse, sub: string, name: string, clientId: string, ttlS?: number) => {
+    const now = Math.floor(Date.now() / 1000);
+    return [
+      encodePart({ alg: "none", typ: "JWT" }),
+      encodePart({
+        iss: issuer, aud: clientId, sub, name, use, gen: generation, jti: randomString(8), iat: now,
+        ...(ttlS ? { exp: now + ttlS } : {})
+      }),
+      ""
+    ].join(".");
+  };
+
+  const issueTokens = (sub: string, name: string, clientId: string) => json({
+    token_type: "Bearer",
+    access_token: token("access", sub, name, clientId, accessTokenTtlS),
+    id_token: token("id", sub, name, clientId, accessTokenTtlS),
+    refresh_token: token("refresh", sub, name, clientId),
+    expires_in: accessTokenTtlS
+  });
+
+  const invalidGrant = (description: string) =>
+    json({ error: "invalid_grant", error_description: description }, 400);
+
+  const exchangeCode = async (params: URLSearchParams) => {
+    const codes = readCodes();
+    const code = codes[params.get("code") ?? ""];
+    // Codes are single use
+    delete codes[params.get("code") ?? ""];
+    sessionStorage.setItem(CODES_KEY, JSON.stringify(codes));
+    if (!code) return invalidGrant("Unknown or used authorization code");
+    if (code.clientId !== params.get("client_id") || code.redirectUri !== params.get("redirect_uri")) {
+      return invalidGrant("The code was issued to another client");
+    }
+    if (await codeChallenge(params.get("code_verifier") ?? "") !== code.challenge) {
+      return invalidGrant("PKCE verification failed");
+    }
+    return issueTokens(code.sub, code.name, code.clientId);
+  };
+
+  const refresh = (params: URLSearchParams) => {
+    const claims = decodeJwt(params.get("refresh_token") ?? "");
+    if (claims?.iss !== issuer || claims.use !== "refresh" || typeof claims.sub !== "string") {
+      return invalidGrant("Invalid refresh token");
+    }
+    return issueTokens(claims.sub, String(claims.name ?? claims.sub), String(claims.aud));
+  };
+
+  return {
+    issuer,
+
+    fetch: async (input, init) => {
+      const url = new URL(input instanceof Request ? input.url : String(input));
+      if (url.href === `${issuer}/.well-known/openid-configuration`) {
+        return json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: tokenEndpoint,
+          code_challenge_methods_supported: ["S256"]
+        });
+      }
+      if (url.href === tokenEndpoint && init?.method === "POST") {
+        const params = new URLSearchParams(String(init.body));
+        switch (params.get("grant_type")) {
+          case "authorization_code": return exchangeCode(params);
+          case "refresh_token": return refresh(params);
+          default: return json({ error: "unsupported_grant_type" }, 400);
+        }
+      }
+      return json({ error: "not_found" }, 404);
+    },
+
+    authorize: (authorizeUrl, username) => {
+      const params = new URL(authorizeUrl).searchParams;
+      const redirect = new URL(params.get("redirect_uri") ?? "");
+      const challenge = params.get("code_challenge");
+      if (params.get("response_type") !== "code" || params.get("code_challenge_method") !== "S256" || !challenge) {
+        redirect.searchParams.set("error", "invalid_request");
+        redirect.searchParams.set("error_description", "Only the code flow with S256 PKCE is supported");
+      } else {
+        const name = username.trim() || "demo";
+        const code = randomString(16);
+        sessionStorage.setItem(CODES_KEY, JSON.stringify({
+          ...readCodes(),
+          [code]: {
+            clientId: params.get("client_id") ?? "",
+            redirectUri: params.get("redirect_uri") ?? "",
+            challenge,
+            sub: name.toLowerCase(),
+            name
+          } satisfies IssuedCode
+        }));
+        redirect.searchParams.set("code", code);
+      }
+      const state = params.get("state");
+      if (state) redirect.searchParams.set("state", state);
+      return redirect.toString();
+    },
+
+    verifyAccessToken: (accessToken) => {
+      const claims = decodeJwt(accessToken);
+      if (claims?.iss !== issuer || claims.use !== "access" || claims.gen !== generation) return null;
+      if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) return null;
+      return typeof claims.sub === "string" ? claims.sub : null;
+    },
+
+    revokeAccessTokens: () => {
+      generation++;
+    }
+  };
+}
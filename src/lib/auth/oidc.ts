@@ -0,0 +1,217 @@
+import { ROUTES } from "@/lib/routes";
+import { codeChallenge, decodeJwt, randomString } from "./pkce";
+import { AuthError, type AuthClient, type AuthSession } from "./types";
+
+export interface OidcConfig {
+  // Base URL the provider's /.well-known/openid-configuration lives under
+  issuer: string;
+  clientId: string;
+  // Defaults to the callback route on this origin
+  redirectUri?: string;
+  scope?: string;
+  // Lets the mock identity provider answer without a network
+  fetch?: typeof fetch;
+}
+
+interface Discovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  id_token?: string;
+  // Seconds
+  expires_in?: number;
+}
+
+// Kept in sessionStorage between leaving for the provider and coming back
+interface PendingSignIn {
+  state: string;
+  verifier: string;
+  returnTo: string;
+}
+
+const SESSION_KEY = "docuchat.auth";
+const PENDING_KEY = "docuchat.auth.pending";
+const DEFAULT_SCOPE = "openid profile email offline_access";
+// Access tokens this close to expiry are refreshed before they are sent
+const EXPIRY_MARGIN_MS = 30_000;
+
+const readJson = <T>(storage: Storage, key: string): T | null => {
+  try {
+    return JSON.parse(storage.getItem(key) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+const claim = (claims: Record<string, unknown>, key: string) =>
+  typeof claims[key] === "string" ? claims[key] as string : undefined;
+
+/**
+ * OpenID Connect authorization code flow with PKCE, for a public client that
+ * has no secret. Tokens are kept in localStorage so a reload stays signed in,
+ * and the access token is refreshed with the refresh token when it expires or
+ * the backend rejects it.
+ */
+export function createOidcClient({
+  issuer,
+  clientId,
+  redirectUri = `${window.location.origin}${ROUTES.authCallback}`,
+  scope = DEFAULT_SCOPE,
+  fetch: fetchFn = (input, init) => fetch(input, init)
+}: OidcConfig): AuthClient {
+  let session = readJson<AuthSession>(localStorage, SESSION_KEY);
+  let discovery: Promise<Discovery> | null = null;
+  let refreshing: Promise<string | null> | null = null;
+  const listeners = new Set<() => void>();
+
+  const update = (next: AuthSession | null) => {
+    session = next;
+    if (next) localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+    else localStorage.removeItem(SESSION_KEY);
+    listeners.forEach(listener => listener());
+  };
+
+  // Network failures are thrown as they are; answers the provider refused become AuthErrors
+  const fetchJson = async <T>(url: string, init?: RequestInit) => {
+    const res = await fetchFn(url, init);
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new AuthError(data?.error_description ?? data?.error ?? `${res.status}: ${res.statusText}`);
+    }
+    return data as T;
+  };
+
+  const discover = () => {
+    discovery ??= fetchJson<Discovery>(`${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`)
+      .catch(error => {
+        discovery = null;
+        throw error;
+      });
+    return discovery;
+  };
+
+  const requestTokens = async (params: Record<string, string>) => {
+    const { token_endpoint } = await discover();
+    return fetchJson<TokenResponse>(token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ client_id: clientId, ...params })
+    });
+  };
+
+  // A refresh may leave out the ID token and refresh token; the previous ones still stand
+  const toSession = (tokens: TokenResponse, previous?: AuthSession): AuthSession => {
+    const idToken = tokens.id_token ?? previous?.idToken;
+    const claims = (tokens.id_token && decodeJwt(tokens.id_token)) || {};
+    const id = claim(claims, "sub") ?? previous?.user.id;
+    if (!id) throw new AuthError("The identity provider did not say who signed in");
+    return {
+      user: {
+        id,
+        name: claim(claims, "name") ?? claim(claims, "preferred_username") ?? claim(claims, "email") ?? previous?.user.name ?? id,
+        email: claim(claims, "email") ?? previous?.user.email
+      },
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+      idToken,
+      expiresAt: Date.now() + (tokens.expires_in ?? 3600) * 1000
+    };
+  };
+
+  const client: AuthClient = {
+    getSession: () => session,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    signIn: async (returnTo = ROUTES.home) => {
+      const { authorization_endpoint } = await discover();
+      const pending: PendingSignIn = { state: randomString(16), verifier: randomString(), returnTo };
+      sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+      const url = new URL(authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        scope,
+        state: pending.state,
+        code_challenge: await codeChallenge(pending.verifier),
+        code_challenge_method: "S256"
+      }).toString();
+      return url.toString();
+    },
+
+    completeSignIn: async (callbackUrl) => {
+      const params = new URL(callbackUrl).searchParams;
+      const pending = readJson<PendingSignIn>(sessionStorage, PENDING_KEY);
+      sessionStorage.removeItem(PENDING_KEY);
+      const error = params.get("error");
+      if (error) throw new AuthError(params.get("error_description") ?? error);
+      const code = params.get("code");
+      // A state we didn't send means the redirect wasn't started from this tab
+      if (!pending || !code || params.get("state") !== pending.state) {
+        throw new AuthError("This sign-in was not started here or has already been used");
+      }
+      update(toSession(await requestTokens({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: pending.verifier
+      })));
+      return pending.returnTo;
+    },
+
+    getAccessToken: async () => {
+      if (!session) return null;
+      if (session.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return session.accessToken;
+      return client.refreshAccessToken();
+    },
+
+    // Concurrent 401s share one refresh. A refused refresh signs the user out;
+    // an unreachable provider leaves them signed in to try again later.
+    refreshAccessToken: () => {
+      refreshing ??= (async () => {
+        const current = session;
+        if (!current?.refreshToken) {
+          update(null);
+          return null;
+        }
+        try {
+          const next = toSession(await requestTokens({
+            grant_type: "refresh_token",
+            refresh_token: current.refreshToken
+          }), current);
+          update(next);
+          return next.accessToken;
+        } catch (error) {
+          if (error instanceof AuthError) update(null);
+          return null;
+        }
+      })().finally(() => { refreshing = null; });
+      return refreshing;
+    },
+
+    signOut: async () => {
+      const idToken = session?.idToken;
+      update(null);
+      const endpoint = await discover().then(d => d.end_session_endpoint, () => undefined);
+      if (!endpoint) return null;
+      const url = new URL(endpoint);
+      url.search = new URLSearchParams({
+        client_id: clientId,
+        post_logout_redirect_uri: window.location.origin,
+        ...(idToken ? { id_token_hint: idToken } : {})
+      }).toString();
+      return url.toString();
+    }
+  };
+
+  return client;
+}
@@ -0,0 +1,24 @@
+// Proof Key for Code Exchange (RFC 7636): the verifier stays in the browser and
+// only its SHA-256 goes to the authorization endpoint, so a stolen code is useless
+
+export const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// URL-safe random string from `bytes` bytes of entropy
+export const randomString = (bytes = 32) => base64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+export const codeChallenge = async (verifier: string) =>
+  base64Url(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier))));
+
+// Claims of a JWT, without checking its signature; the backend does that
+export const decodeJwt = (token: string): Record<string, unknown> | null => {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const data = JSON.parse(new TextDecoder().decode(Uint8Array.from(json, c => c.charCodeAt(0))));
+    return data && typeof data === "object" ? data : null;
+  } catch {
+    return null;
+  }
+};
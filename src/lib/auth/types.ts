@@ -0,0 +1,36 @@
+import type { AccessTokenProvider } from "@/lib/api/types";
+
+export interface AuthUser {
+  // The identity provider's `sub` claim; workspaces are keyed by it
+  id: string;
+  name: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+// Signing in, keeping the tokens fresh and signing out
+export interface AuthClient extends AccessTokenProvider {
+  getSession(): AuthSession | null;
+  subscribe(listener: () => void): () => void;
+  // URL of the identity provider's sign-in page; the caller redirects there
+  signIn(returnTo?: string): Promise<string>;
+  // Finishes sign-in from the redirect back and resolves with the path to return to
+  completeSignIn(callbackUrl: string): Promise<string>;
+  // Forgets the tokens and resolves with the provider's sign-out URL, if it has one
+  signOut(): Promise<string | null>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
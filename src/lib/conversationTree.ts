@@ -0,0 +1,107 @@
+import type { ChatTurn } from "@/lib/api";
+import type { Conversation, Message } from "@/types/chat";
+
+// Conversations are trees: editing a question or regenerating an answer adds
+// a sibling instead of replacing the original. `branches` records which
+// child is shown under each parent; the visible thread is the path through
+// those choices.
+
+// Key in `branches` for the conversation's first messages
+const ROOT = "root";
+
+// Messages saved before branching existed have no parentId and follow the previous one
+const parentOf = (messages: Message[], index: number) => {
+  const { parentId } = messages[index];
+  if (parentId !== undefined) return parentId;
+  return index > 0 ? messages[index - 1].id : null;
+};
+
+const childrenOf = (messages: Message[], parentId: string | null) =>
+  messages.filter((_, i) => parentOf(messages, i) === parentId);
+
+export const siblingsOf = (conversation: Conversation, message: Message) => {
+  const index = conversation.messages.indexOf(message);
+  return index === -1 ? [message] : childrenOf(conversation.messages, parentOf(conversation.messages, index));
+};
+
+// The thread currently shown, following the chosen (or else the newest) branch at each fork
+export function activePath(conversation: Conversation) {
+  const path: Message[] = [];
+  let parentId: string | null = null;
+  for (;;) {
+    const children = childrenOf(conversation.messages, parentId);
+    if (!children.length) return path;
+    const chosen: string | undefined = conversation.branches?.[parentId ?? ROOT];
+    const next: Message = children.find(m => m.id === chosen) ?? children[children.length - 1];
+    path.push(next);
+    parentId = next.id;
+  }
+}
+
+// The thread from the first message down to `messageId`, inclusive
+export function pathTo(conversation: Conversation, messageId: string | null) {
+  const { messages } = conversation;
+  const path: Message[] = [];
+  for (let id = messageId; id !== null;) {
+    const index = messages.findIndex(m => m.id === id);
+    if (index === -1) break;
+    path.unshift(messages[index]);
+    id = parentOf(messages, index);
+  }
+  return path;
+}
+
+export const parentIdOf = (conversation: Conversation, message: Message) => {
+  const index = conversation.messages.indexOf(message);
+  return index === -1 ? message.parentId ?? null : parentOf(conversation.messages, index);
+};
+
+// Adds `message` under its parent and makes it the visible branch there
+export const addMessage = (conversation: Conversation, message: Message): Conversation => ({
+  ...conversation,
+  messages: [...conversation.messages, message],
+  branches: { ...conversation.branches, [message.parentId ?? ROOT]: message.id }
+});
+
+export const selectBranch = (conversation: Conversation, message: Message): Conversation => ({
+  ...conversation,
+  branches: { ...conversation.branches, [parentIdOf(conversation, message) ?? ROOT]: message.id }
+});
+
+// Chooses the branches leading to `messageId`, putting it on the visible thread
+export const showMessage = (conversation: Conversation, messageId: string) =>
+  pathTo(conversation, messageId).reduce(selectBranch, conversation);
+
+// Question/answer pairs along a thread, as the backend's chat history
+export function toChatHistory(path: Message[]): ChatTurn[] {
+  const turns: ChatTurn[] = [];
+  path.forEach((message, i) => {
+    const reply = path[i + 1];
+    if (message.role === "user" && reply?.role === "bot" && !reply.streaming) {
+      turns.push({ question: message.content, answer: reply.content });
+    }
+  });
+  return turns;
+}
+
+// Adds a bot answer under its question. Follow-ups asked while that question
+// sat in the outbox move beneath the answer, so the thread keeps its order.
+export const addAnswer = (conversation: Conversation, answer: Message): Conversation => addMessage({
+  ...conversation,
+  messages: conversation.messages.map(m =>
+    m.pending && m.role === "user" && m.parentId === answer.parentId ? { ...m, parentId: answer.id } : m
+  )
+}, answer);
+
+// Removes a message, handing its children to its parent
+export function removeMessage(conversation: Conversation, messageId: string): Conversation {
+  const message = conversation.messages.find(m => m.id === messageId);
+  if (!message) return conversation;
+  const parentId = parentIdOf(conversation, message);
+  return {
+    ...conversation,
+    messages: conversation.messages
+      .filter(m => m.id !== messageId)
+      .map(m => m.parentId === messageId ? { ...m, parentId } : m)
+  };
+}
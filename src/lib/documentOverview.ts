@@ -0,0 +1,14 @@
+import { t } from "@/lib/i18n";
+import type { Document } from "@/types/chat";
+
+const MAX_SUGGESTIONS = 4;
+
+// Starter questions for a document: the backend's own, else one per
+// top-level section of the PDF outline
+export function suggestedQuestions(doc: Document) {
+  if (doc.summary?.questions.length) return doc.summary.questions.slice(0, MAX_SUGGESTIONS);
+  return (doc.inspection?.outline ?? [])
+    .filter(entry => entry.level === 0)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(entry => t("overview.sectionQuestion", { title: entry.title }));
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { detectDocumentType, getDocumentType, toUploadFile } from "@/lib/documentTypes";
+
+const uploadText = async (file: File, type: string) => (await toUploadFile(file, getDocumentType(type))).text();
+
+describe("toUploadFile", () => {
+  it("uploads HTML as its visible text, without scripts or styles", async () => {
+    const html = `<html><head><style>p { color: red }</style><script>track("view")</script></head>
+      <body><h1>Minutes</h1><p>Budget approved.</p><noscript>Enable JavaScript</noscript>
+      <template><p>Row</p></template><script>window.flag = true</script><p>Next meeting in May.</p></body></html>`;
+
+    const file = await toUploadFile(new File([html], "minutes.html", { type: "text/html" }), getDocumentType("html"));
+
+    expect(file.name).toBe("minutes.txt");
+    expect(await file.text()).toBe("Minutes\nBudget approved.\n\nNext meeting in May.");
+  });
+
+  it("uploads an EPUB as the text of its chapters in spine order", async () => {
+    const zip = new JSZip();
+    zip.file("mimetype", "application/epub+zip");
+    zip.file("META-INF/container.xml",
+      `<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>`);
+    zip.file("OEBPS/content.opf", `<package><metadata><title>Handbook</title></metadata>
+      <manifest><item id="a" href="one.xhtml"/><item id="b" href="two.xhtml"/></manifest>
+      <spine><itemref idref="b"/><itemref idref="a"/></spine></package>`);
+    const chapter = (text: string) =>
+      `<html xmlns="http://www.w3.org/1999/xhtml"><body><p>${text}</p><script>ignored()</script></body></html>`;
+    zip.file("OEBPS/one.xhtml", chapter("Chapter one"));
+    zip.file("OEBPS/two.xhtml", chapter("Chapter two"));
+    const file = new File([await zip.generateAsync({ type: "uint8array" })], "handbook.epub");
+
+    expect(await uploadText(file, "epub")).toBe("Handbook\nChapter two\n\nChapter one");
+  });
+});
+
+describe("detectDocumentType", () => {
+  const zipFile = async (name: string, entries: string[]) => {
+    const zip = new JSZip();
+    entries.forEach(entry => zip.file(entry, "<xml/>"));
+    return new File([await zip.generateAsync({ type: "uint8array" })], name);
+  };
+
+  it("accepts a Word package and rejects any other ZIP named .docx", async () => {
+    const docx = await zipFile("report.docx", ["[Content_Types].xml", "word/document.xml"]);
+    const archive = await zipFile("photos.docx", ["photos/one.jpg"]);
+
+    expect((await detectDocumentType(docx)).id).toBe("docx");
+    await expect(detectDocumentType(archive)).rejects.toThrow("photos.docx");
+  });
+});
@@ -0,0 +1,201 @@
+import { FileText, FileType, FileCode, FileCode2, BookText, type LucideIcon } from "lucide-react";
+import { t } from "@/lib/i18n";
+
+// Registry of the document formats the app accepts. Each entry says how to
+// recognise a file, how it reaches the backend and how to preview it.
+
+// What the viewer shows for a non-PDF document
+export interface PreviewContent {
+  format: "text" | "markdown" | "html";
+  content: string;
+}
+
+export interface DocumentType {
+  id: string;
+  label: string;
+  // Lowercase, including the dot
+  extensions: string[];
+  mimeTypes: string[];
+  icon: LucideIcon;
+  iconClassName: string;
+  // Checks the file's first bytes (up to SNIFF_BYTES) against the format's signature
+  sniff: (head: Uint8Array) => boolean;
+  // "pdf" goes to /upload-pdf, everything else to /upload-document
+  endpoint: "pdf" | "document";
+  // Formats the browser can read are flattened client-side and uploaded as plain text
+  toText?: (file: File) => Promise<string>;
+  // PDFs open in the pdf.js viewer; other formats render to text, Markdown or HTML
+  preview: "pdf" | ((file: File) => Promise<PreviewContent>);
+}
+
+const SNIFF_BYTES = 512;
+
+const startsWith = (head: Uint8Array, signature: string, offset = 0) =>
+  [...signature].every((ch, i) => head[offset + i] === ch.charCodeAt(0));
+
+const isZip = (head: Uint8Array) => startsWith(head, "PK\x03\x04");
+
+// EPUBs are ZIPs whose first entry is an uncompressed "mimetype" file
+const isEpub = (head: Uint8Array) => isZip(head) && startsWith(head, "mimetypeapplication/epub+zip", 30);
+
+// Word files are ZIPs too, opening with the package's content types or the document itself
+const isDocx = (head: Uint8Array) =>
+  isZip(head) && (startsWith(head, "[Content_Types].xml", 30) || startsWith(head, "word/", 30));
+
+// Text formats have no signature; a NUL byte is the surest sign of binary content
+const isText = (head: Uint8Array) => !head.includes(0);
+
+// Elements that break the flow of text, so their content doesn't run into the next block's
+const BLOCKS = "address, article, aside, blockquote, br, dd, div, dl, dt, figcaption, footer, h1, h2, h3, h4, h5, h6, header, hr, li, main, nav, ol, p, pre, section, table, tr, ul";
+
+// A parsed document is never rendered, so innerText would read like
+// textContent: scripts and styles have to go before the text is taken
+const htmlToText = (html: string) => {
+  const { body } = new DOMParser().parseFromString(html, "text/html");
+  body.querySelectorAll("script, style, noscript, template").forEach(el => el.remove());
+  body.querySelectorAll(BLOCKS).forEach(el => el.append("\n"));
+  // Source indentation isn't content: tidy each line and keep at most one blank line
+  return (body.textContent ?? "")
+    .split("\n")
+    .map(line => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+const registry: DocumentType[] = [
+  {
+    id: "pdf",
+    label: "PDF",
+    extensions: [".pdf"],
+    mimeTypes: ["application/pdf"],
+    icon: FileText,
+    iconClassName: "text-red-500",
+    sniff: head => startsWith(head, "%PDF-"),
+    endpoint: "pdf",
+    preview: "pdf"
+  },
+  {
+    id: "docx",
+    label: "Word",
+    extensions: [".docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    icon: FileType,
+    iconClassName: "text-blue-600",
+    sniff: isDocx,
+    endpoint: "document",
+    toText: async file => {
+      const { default: mammoth } = await import("mammoth");
+      const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+      return value;
+    },
+    preview: async file => {
+      const { default: mammoth } = await import("mammoth");
+      const { value } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+      return { format: "html", content: value };
+    }
+  },
+  {
+    id: "epub",
+    label: "EPUB",
+    extensions: [".epub"],
+    mimeTypes: ["application/epub+zip"],
+    icon: BookText,
+    iconClassName: "text-amber-600",
+    sniff: isEpub,
+    endpoint: "document",
+    toText: async file => {
+      const { epubToHtml } = await import("./epub");
+      return htmlToText(await epubToHtml(file));
+    },
+    preview: async file => {
+      const { epubToHtml } = await import("./epub");
+      return { format: "html", content: await epubToHtml(file) };
+    }
+  },
+  {
+    id: "md",
+    label: "Markdown",
+    extensions: [".md", ".markdown"],
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+    icon: FileCode2,
+    iconClassName: "text-gray-700",
+    sniff: isText,
+    endpoint: "document",
+    toText: file => file.text(),
+    preview: async file => ({ format: "markdown", content: await file.text() })
+  },
+  {
+    id: "html",
+    label: "HTML",
+    extensions: [".html", ".htm"],
+    mimeTypes: ["text/html"],
+    icon: FileCode,
+    iconClassName: "text-orange-600",
+    sniff: isText,
+    endpoint: "document",
+    toText: async file => htmlToText(await file.text()),
+    preview: async file => ({ format: "html", content: await file.text() })
+  },
+  {
+    id: "txt",
+    // The other labels are format names; this one is a word
+    get label() { return t("documentType.text"); },
+    extensions: [".txt"],
+    mimeTypes: ["text/plain"],
+    icon: FileText,
+    iconClassName: "text-gray-500",
+    sniff: isText,
+    endpoint: "document",
+    toText: file => file.text(),
+    preview: async file => ({ format: "text", content: await file.text() })
+  }
+];
+
+// Later registrations win, so a type can also be replaced
+export function registerDocumentType(type: DocumentType) {
+  const existing = registry.findIndex(t => t.id === type.id);
+  if (existing !== -1) registry.splice(existing, 1);
+  registry.push(type);
+}
+
+export const getDocumentType = (id = "pdf") => registry.find(t => t.id === id) ?? registry[0];
+
+// Value for a file input's `accept` attribute, optionally limited to some type ids
+export const acceptedFileTypes = (allowed?: string[]) =>
+  registry
+    .filter(t => !allowed || allowed.includes(t.id))
+    .flatMap(t => [...t.extensions, ...t.mimeTypes])
+    .join(",");
+
+export const supportedFormats = () => registry.map(t => t.label).join(", ");
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot).toLowerCase();
+};
+
+/**
+ * Works out a file's type from its extension and confirms it against the
+ * file's leading bytes, so a renamed binary can't pass as text (or vice
+ * versa). Rejects with a user-facing message when the file isn't supported.
+ */
+export async function detectDocumentType(file: File): Promise<DocumentType> {
+  const extension = extensionOf(file.name);
+  const type = registry.find(t => t.extensions.includes(extension));
+  if (!type) {
+    throw new Error(t("upload.unsupportedType", { name: file.name, formats: supportedFormats() }));
+  }
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (!type.sniff(head)) {
+    throw new Error(t("upload.invalidContent", { name: file.name, type: type.label }));
+  }
+  return type;
+}
+
+// The file as the backend should receive it: text formats become a .txt file
+export async function toUploadFile(file: File, type: DocumentType) {
+  if (!type.toText) return file;
+  const base = file.name.slice(0, file.name.length - extensionOf(file.name).length);
+  return new File([await type.toText(file)], `${base}.txt`, { type: "text/plain" });
+}
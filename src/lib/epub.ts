@@ -0,0 +1,45 @@
+import JSZip from "jszip";
+import { t } from "@/lib/i18n";
+
+// Just enough EPUB reading for a preview: the chapters in spine order,
+// flattened into one HTML document. Images and stylesheets are dropped since
+// the preview can't resolve their paths inside the archive.
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, "application/xml");
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, ch => `&#${ch.charCodeAt(0)};`);
+
+const resolvePath = (base: string, href: string) => {
+  const parts = base.split("/").slice(0, -1);
+  for (const part of decodeURIComponent(href.split("#")[0]).split("/")) {
+    if (part === "..") parts.pop();
+    else if (part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+};
+
+export async function epubToHtml(file: File) {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const container = await zip.file("META-INF/container.xml")?.async("text");
+  const opfPath = container && parseXml(container).querySelector("rootfile")?.getAttribute("full-path");
+  const opf = opfPath && await zip.file(opfPath)?.async("text");
+  if (!opfPath || !opf) throw new Error(t("errors.epubUnreadable"));
+
+  const pkg = parseXml(opf);
+  const manifest = new Map(
+    [...pkg.querySelectorAll("manifest > item")].map(item => [item.getAttribute("id"), item.getAttribute("href")])
+  );
+  const title = pkg.querySelector("metadata > title")?.textContent ?? file.name;
+
+  const chapters: string[] = [];
+  for (const ref of pkg.querySelectorAll("spine > itemref")) {
+    const href = manifest.get(ref.getAttribute("idref"));
+    const source = href && await zip.file(resolvePath(opfPath, href))?.async("text");
+    if (!source) continue;
+    const chapter = new DOMParser().parseFromString(source, "application/xhtml+xml");
+    chapter.querySelectorAll("img, image, script, style, link").forEach(el => el.remove());
+    chapters.push(`<section>${chapter.body?.innerHTML ?? ""}</section>`);
+  }
+  return `<h1>${escapeHtml(title)}</h1>${chapters.join("<hr>")}`;
+}
@@ -0,0 +1,110 @@
+import type { Conversation, Feedback } from "@/types/chat";
+import { formatNumber, t } from "@/lib/i18n";
+
+// Aggregates for the feedback analytics view
+
+export interface DocumentFeedback {
+  name: string;
+  up: number;
+  down: number;
+  // Every timed answer about the document, rated or not
+  answers: number;
+  averageLatencyMs: number | null;
+}
+
+export interface FeedbackSummary {
+  documents: DocumentFeedback[];
+  answers: number;
+  averageLatencyMs: number | null;
+  up: number;
+  down: number;
+  // Newest first
+  negative: Feedback[];
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Summarises ratings per document next to answer latency. Latency comes from
+ * every timed answer still in `conversations`, plus those of rated answers
+ * whose conversation has since been deleted. `documentNames` resolves a
+ * conversation's document names.
+ */
+export function summarizeFeedback(
+  feedback: Feedback[],
+  conversations: Conversation[],
+  documentNames: (conversation: Conversation) => string[]
+): FeedbackSummary {
+  const byName = new Map<string, { up: number; down: number; latencies: number[] }>();
+  const entry = (name: string) => {
+    let stats = byName.get(name);
+    if (!stats) byName.set(name, stats = { up: 0, down: 0, latencies: [] });
+    return stats;
+  };
+
+  const timed = new Set<string>();
+  const latencies: number[] = [];
+  for (const conversation of conversations) {
+    const names = documentNames(conversation);
+    for (const message of conversation.messages) {
+      if (message.role !== "bot" || message.latencyMs === undefined) continue;
+      timed.add(message.id);
+      latencies.push(message.latencyMs);
+      names.forEach(name => entry(name).latencies.push(message.latencyMs!));
+    }
+  }
+
+  for (const item of feedback) {
+    for (const name of item.documentNames) entry(name)[item.rating]++;
+    if (item.latencyMs !== undefined && !timed.has(item.messageId)) {
+      latencies.push(item.latencyMs);
+      item.documentNames.forEach(name => entry(name).latencies.push(item.latencyMs!));
+    }
+  }
+
+  return {
+    documents: [...byName]
+      .map(([name, stats]) => ({
+        name,
+        up: stats.up,
+        down: stats.down,
+        answers: stats.latencies.length,
+        averageLatencyMs: average(stats.latencies)
+      }))
+      .sort((a, b) => b.up + b.down - (a.up + a.down) || a.name.localeCompare(b.name)),
+    answers: latencies.length,
+    averageLatencyMs: average(latencies),
+    up: feedback.filter(f => f.rating === "up").length,
+    down: feedback.filter(f => f.rating === "down").length,
+    negative: feedback
+      .filter(f => f.rating === "down")
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  };
+}
+
+export const formatLatency = (ms: number | null) =>
+  ms === null ? "—"
+    : ms < 1000 ? t("units.milliseconds", { value: Math.round(ms) })
+    : t("units.seconds", { value: formatNumber(Math.round(ms / 100) / 10) });
+
+// Quotes every field, doubling embedded quotes (RFC 4180)
+const csvField = (value: string | number | undefined) => `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+// One row per rating, oldest first
+export function feedbackToCsv(feedback: Feedback[]) {
+  const header = ["date", "documents", "rating", "question", "answer", "comment", "latency_ms", "synced"];
+  const rows = [...feedback]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(f => [
+      f.createdAt.toISOString(),
+      f.documentNames.join("; "),
+      f.rating,
+      f.question,
+      f.answer,
+      f.comment,
+      f.latencyMs,
+      f.synced ? "yes" : "no"
+    ]);
+  return [header, ...rows].map(row => row.map(csvField).join(",")).join("\r\n");
+}
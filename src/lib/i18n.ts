@@ -0,0 +1,145 @@
+import en from "@/locales/en";
+import fr from "@/locales/fr";
+import ar from "@/locales/ar";
+
+// Message catalogues, the current locale and locale-aware formatting. English
+// is the source catalogue: every other locale must translate all of its keys
+// and falls back to it at runtime only for plural forms English doesn't have.
+
+export type Locale = "en" | "fr" | "ar";
+
+export const LOCALES: { id: Locale; name: string; dir: "ltr" | "rtl" }[] = [
+  { id: "en", name: "English", dir: "ltr" },
+  { id: "fr", name: "Français", dir: "ltr" },
+  { id: "ar", name: "العربية", dir: "rtl" }
+];
+
+type PluralCategory = Intl.LDMLPluralRule;
+type SourceKey = keyof typeof en;
+
+// Plural messages are stored as "key_one", "key_other"... and looked up as "key"
+type PluralBase<K> = K extends `${infer Base}_other` ? Base : never;
+export type MessageKey = Exclude<SourceKey, `${string}_${PluralCategory}`> | PluralBase<SourceKey>;
+
+export type Messages = Record<SourceKey, string> &
+  Partial<Record<`${PluralBase<SourceKey>}_${PluralCategory}`, string>>;
+
+const catalogues: Record<Locale, Messages> = { en, fr, ar };
+
+const STORAGE_KEY = "docuchat.locale";
+const ANSWER_LANGUAGE_KEY = "docuchat.answerLanguage";
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+// A saved choice wins, then the browser's preferred languages, then English
+function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be blocked; the browser languages still apply
+  }
+  const preferred = typeof navigator !== "undefined" ? navigator.languages ?? [navigator.language] : [];
+  return preferred.map(tag => tag.split("-")[0]).find(isLocale) ?? "en";
+}
+
+let current = detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = () => current;
+
+export const localeDirection = (locale: Locale = current) =>
+  LOCALES.find(l => l.id === locale)?.dir ?? "ltr";
+
+// Keeps <html lang dir> in step, which is what flips the layout for RTL
+const applyToDocument = () => {
+  if (typeof document === "undefined") return;
+  document.documentElement.lang = current;
+  document.documentElement.dir = localeDirection();
+};
+applyToDocument();
+
+export function setLocale(locale: Locale) {
+  if (locale === current) return;
+  current = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.error("Failed to save the language:", error);
+  }
+  applyToDocument();
+  listeners.forEach(listener => listener());
+}
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const numberFormat = (options?: Intl.NumberFormatOptions) => new Intl.NumberFormat(current, options);
+
+export const formatNumber = (value: number) => numberFormat().format(value);
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * The message for `key` in the current locale with `{name}` placeholders
+ * filled in; numbers are formatted for the locale. A numeric `count` param
+ * picks the plural form ("key_one", "key_few"...) the locale's rules call for.
+ */
+export function t(key: MessageKey, params: MessageParams = {}) {
+  const messages = catalogues[current] as Record<string, string | undefined>;
+  const source = en as Record<string, string | undefined>;
+  const { count } = params;
+  const template = typeof count === "number"
+    ? messages[`${key}_${new Intl.PluralRules(current).select(count)}`] ?? messages[`${key}_other`]
+      ?? source[`${key}_${new Intl.PluralRules("en").select(count)}`]
+    : messages[key] ?? source[key];
+  return (template ?? key).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    return value === undefined ? placeholder : typeof value === "number" ? formatNumber(value) : value;
+  });
+}
+
+const KB = 1024;
+const MB = KB * 1024;
+
+// File sizes in the units people expect: KB below a megabyte, MB above
+export const formatBytes = (bytes: number, fractionDigits = 1) =>
+  bytes >= MB
+    ? numberFormat({ style: "unit", unit: "megabyte", maximumFractionDigits: fractionDigits }).format(bytes / MB)
+    : numberFormat({ style: "unit", unit: "kilobyte", maximumFractionDigits: 0 }).format(Math.ceil(bytes / KB));
+
+export const formatPercent = (percent: number) =>
+  numberFormat({ style: "percent", maximumFractionDigits: 0 }).format(percent / 100);
+
+export const formatTime = (date: Date) =>
+  date.toLocaleTimeString(current, { hour: "2-digit", minute: "2-digit" });
+
+export const formatDate = (date: Date) => date.toLocaleDateString(current);
+
+// Languages answers can be requested in, as BCP 47 tags for /chat
+export const ANSWER_LANGUAGES = ["en", "fr", "ar", "es", "de", "it", "pt", "nl", "zh", "ja"];
+
+// A language's own name in the current locale, e.g. "allemand" for "de" in French
+export const languageName = (tag: string) =>
+  new Intl.DisplayNames(current, { type: "language" }).of(tag) ?? tag;
+
+// null lets the backend answer in whatever language the question was asked in
+export function loadAnswerLanguage(): string | null {
+  try {
+    const saved = localStorage.getItem(ANSWER_LANGUAGE_KEY);
+    return saved && ANSWER_LANGUAGES.includes(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveAnswerLanguage(language: string | null) {
+  try {
+    if (language) localStorage.setItem(ANSWER_LANGUAGE_KEY, language);
+    else localStorage.removeItem(ANSWER_LANGUAGE_KEY);
+  } catch (error) {
+    console.error("Failed to save the answer language:", error);
+  }
+}
@@ -0,0 +1,25 @@
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from "pdfjs-dist";
+import workerSrc from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = workerSrc;
+
+export type { PDFDocumentProxy, PDFPageProxy, PageViewport, RenderTask } from "pdfjs-dist";
+
+// Parsed documents are cached per File so the viewer and other features share one worker copy
+const cache = new WeakMap<File, Promise<PDFDocumentProxy>>();
+
+// Password-protected files need `password` on the first successful load only
+export function loadPdf(file: File, password?: string): Promise<PDFDocumentProxy> {
+  let pdf = cache.get(file);
+  if (!pdf) {
+    pdf = file.arrayBuffer().then(data => getDocument({ data, password }).promise);
+    // Let a failed load be retried
+    pdf.catch(() => cache.delete(file));
+    cache.set(file, pdf);
+  }
+  return pdf;
+}
+
+// pdf.js rejects with a PasswordException, which it doesn't export
+export const isPasswordError = (error: unknown) =>
+  error instanceof Error && error.name === "PasswordException";
@@ -0,0 +1,86 @@
+import type { jsPDF } from "jspdf";
+import amiriRegular from "@expo-google-fonts/amiri/400Regular/Amiri_400Regular.ttf?url";
+import amiriBold from "@expo-google-fonts/amiri/700Bold/Amiri_700Bold.ttf?url";
+import amiriItalic from "@expo-google-fonts/amiri/400Regular_Italic/Amiri_400Regular_Italic.ttf?url";
+import notoSansScRegular from "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url";
+import notoSansScBold from "@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf?url";
+
+// Fonts for PDF exports. jsPDF's built-in Helvetica only covers Windows-1252,
+// which is enough for the Latin answer languages. Arabic text is set in Amiri,
+// which also has Latin letters for the names and numbers mixed into it;
+// Chinese, Japanese and anything else in Noto Sans SC. Those files are
+// fetched the first time an export needs them, and jsPDF embeds only the
+// glyphs actually used.
+
+export type PdfFontStyle = "normal" | "bold" | "italic";
+
+export type PdfFontFamily = "helvetica" | "Amiri" | "NotoSansSC";
+
+const FONT_FILES: Record<Exclude<PdfFontFamily, "helvetica">, Partial<Record<PdfFontStyle, string>>> = {
+  Amiri: { normal: amiriRegular, bold: amiriBold, italic: amiriItalic },
+  // Noto Sans SC has no italic
+  NotoSansSC: { normal: notoSansScRegular, bold: notoSansScBold }
+};
+
+const ARABIC = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const CJK = /[\u3000-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+// Windows-1252: Latin-1 plus the curly quotes, dashes and euro sign answers are full of
+const WIN_ANSI = /^[\t\n\r\x20-\x7E\xA0-\xFF€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]*$/;
+
+// A paragraph reads right to left when its first letter is from a right-to-left script
+const FIRST_STRONG = /[A-Za-z\u00C0-\u024F\u0370-\u04FF\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF\u3040-\u9FFF]/;
+const RTL = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+export const fontFamilyFor = (text: string): PdfFontFamily =>
+  CJK.test(text) ? "NotoSansSC"
+    : ARABIC.test(text) ? "Amiri"
+    : WIN_ANSI.test(text) ? "helvetica"
+    : "NotoSansSC";
+
+export const isRtl = (text: string) => RTL.test(text.match(FIRST_STRONG)?.[0] ?? "");
+
+export const hasRtl = (text: string) => RTL.test(text);
+
+// The style a family can actually draw `style` in
+export const availableStyle = (family: PdfFontFamily, style: PdfFontStyle): PdfFontStyle =>
+  family === "helvetica" || FONT_FILES[family][style] ? style : "normal";
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // Chunked, since spreading megabytes into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const cache = new Map<string, Promise<string>>();
+
+const fetchFont = (url: string) => {
+  let font = cache.get(url);
+  if (!font) {
+    font = fetch(url).then(response => {
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      return response.arrayBuffer();
+    }).then(toBase64);
+    // Let a failed download be retried
+    font.catch(() => cache.delete(url));
+    cache.set(url, font);
+  }
+  return font;
+};
+
+// Embeds every font `pdf` will be set in, given the (family, style) pairs its text needs
+export async function loadPdfFonts(pdf: jsPDF, fonts: Iterable<[PdfFontFamily, PdfFontStyle]>) {
+  const needed = new Map<string, [Exclude<PdfFontFamily, "helvetica">, PdfFontStyle]>();
+  for (const [family, style] of fonts) {
+    if (family === "helvetica") continue;
+    const available = availableStyle(family, style);
+    needed.set(`${family}-${available}`, [family, available]);
+  }
+  await Promise.all([...needed].map(async ([fileName, [family, style]]) => {
+    pdf.addFileToVFS(`${fileName}.ttf`, await fetchFont(FONT_FILES[family][style]!));
+    pdf.addFont(`${fileName}.ttf`, family, style);
+  }));
+}
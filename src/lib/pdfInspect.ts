@@ -0,0 +1,130 @@
+import { loadPdf, isPasswordError, type PDFDocumentProxy } from "@/lib/pdf";
+import { getPageText } from "@/lib/pdfSearch";
+import { t } from "@/lib/i18n";
+
+// What pdf.js can tell about a PDF before it is uploaded
+export interface PdfInspection {
+  pageCount: number;
+  // Of the sampled pages, how many carry an extractable text layer
+  sampledPages: number;
+  textPages: number;
+  encrypted: boolean;
+  title?: string;
+  author?: string;
+  // The PDF's bookmarks, flattened; absent when it has none
+  outline?: OutlineEntry[];
+}
+
+export interface OutlineEntry {
+  title: string;
+  // 0 for top-level entries
+  level: number;
+  // 1-based; unknown when the bookmark points outside the document
+  page?: number;
+}
+
+export type InspectionResult =
+  | { status: "ok"; inspection: PdfInspection }
+  | { status: "password"; incorrect: boolean };
+
+export interface InspectionWarning {
+  // "block" holds the upload until the user confirms it
+  level: "warn" | "block";
+  message: string;
+}
+
+// Long documents are judged by a spread of pages rather than all of them
+const MAX_SAMPLED_PAGES = 10;
+// Below this many letters/digits a page counts as image-only (page numbers, stray headers)
+const MIN_PAGE_CHARS = 20;
+
+const samplePages = (count: number) => {
+  if (count <= MAX_SAMPLED_PAGES) return Array.from({ length: count }, (_, i) => i + 1);
+  const step = (count - 1) / (MAX_SAMPLED_PAGES - 1);
+  return Array.from({ length: MAX_SAMPLED_PAGES }, (_, i) => Math.round(1 + i * step));
+};
+
+const metadataString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+// Deeper levels and very long outlines add little to a table of contents
+const MAX_OUTLINE_DEPTH = 3;
+const MAX_OUTLINE_ENTRIES = 100;
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+
+// Bookmarks name their target page by reference, sometimes through a named destination
+async function destinationPage(pdf: PDFDocumentProxy, dest: OutlineNode["dest"]) {
+  try {
+    const explicit = typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    const ref = explicit?.[0];
+    if (typeof ref === "number") return ref + 1;
+    if (ref && typeof ref === "object") return await pdf.getPageIndex(ref) + 1;
+  } catch {
+    // A broken destination only costs the entry its page
+  }
+  return undefined;
+}
+
+export async function readOutline(pdf: PDFDocumentProxy): Promise<OutlineEntry[]> {
+  const entries: OutlineEntry[] = [];
+  const visit = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      if (entries.length >= MAX_OUTLINE_ENTRIES) return;
+      const title = node.title.trim();
+      if (title) entries.push({ title, level, page: await destinationPage(pdf, node.dest) });
+      if (level + 1 < MAX_OUTLINE_DEPTH) await visit(node.items, level + 1);
+    }
+  };
+  await visit(await pdf.getOutline() ?? [], 0);
+  return entries;
+}
+
+export async function inspectPdf(file: File, password?: string): Promise<InspectionResult> {
+  let pdf;
+  try {
+    pdf = await loadPdf(file, password);
+  } catch (error) {
+    if (isPasswordError(error)) return { status: "password", incorrect: !!password };
+    throw error;
+  }
+
+  const pages = samplePages(pdf.numPages);
+  const texts = await Promise.all(pages.map(page => getPageText(pdf, page)));
+  const { info } = await pdf.getMetadata();
+  const fields = info as Record<string, unknown>;
+  const outline = await readOutline(pdf).catch(error => {
+    console.error("Failed to read the PDF outline:", error);
+    return [];
+  });
+
+  return {
+    status: "ok",
+    inspection: {
+      pageCount: pdf.numPages,
+      sampledPages: pages.length,
+      textPages: texts.filter(({ text }) => text.replace(/[^\p{L}\p{N}]/gu, "").length >= MIN_PAGE_CHARS).length,
+      // Set whenever the file has an encryption dictionary, even if it opens without a password
+      encrypted: "EncryptFilterName" in fields || !!password,
+      title: metadataString(fields.Title),
+      author: metadataString(fields.Author),
+      outline: outline.length ? outline : undefined
+    }
+  };
+}
+
+export function inspectionWarning({ sampledPages, textPages }: PdfInspection): InspectionWarning | null {
+  if (sampledPages && !textPages) {
+    return {
+      level: "block",
+      message: t("inspection.noText")
+    };
+  }
+  if (textPages < sampledPages) {
+    return {
+      level: "warn",
+      message: t("inspection.someText", { textPages, sampledPages })
+    };
+  }
+  return null;
+}
@@ -0,0 +1,147 @@
+import type { PDFDocumentProxy } from "@/lib/pdf";
+
+// Text of one page, with the span each pdf.js text item covers so matches
+// can be mapped back onto the text layer
+interface PageText {
+  text: string;
+  items: { start: number; end: number }[];
+}
+
+export interface PassageMatch {
+  pageNumber: number;
+  // Indices into the page's text items (= text layer spans), inclusive
+  firstItem: number;
+  lastItem: number;
+}
+
+// Consecutive words compared when an excerpt doesn't match verbatim
+const SHINGLE_SIZE = 4;
+// Share of shingles that must be found for a fuzzy match to count
+const MIN_FUZZY_SCORE = 0.3;
+
+const pageTextCache = new WeakMap<PDFDocumentProxy, Map<number, Promise<PageText>>>();
+
+export function getPageText(pdf: PDFDocumentProxy, pageNumber: number): Promise<PageText> {
+  let pages = pageTextCache.get(pdf);
+  if (!pages) {
+    pages = new Map();
+    pageTextCache.set(pdf, pages);
+  }
+  let pageText = pages.get(pageNumber);
+  if (!pageText) {
+    pageText = pdf.getPage(pageNumber)
+      .then(page => page.getTextContent())
+      .then(({ items }) => {
+        let text = "";
+        const spans: PageText["items"] = [];
+        for (const item of items) {
+          // Marked-content entries have no text and no text layer span
+          if (!("str" in item)) continue;
+          const start = text.length;
+          text += item.str;
+          spans.push({ start, end: text.length });
+          text += item.hasEOL ? "\n" : " ";
+        }
+        return { text, items: spans };
+      });
+    pages.set(pageNumber, pageText);
+  }
+  return pageText;
+}
+
+// Lowercases and collapses punctuation/whitespace, keeping a map from each
+// normalised character back to its index in the original string
+const normalize = (raw: string) => {
+  let text = "";
+  const map: number[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i].toLowerCase();
+    if (/[\p{L}\p{N}]/u.test(ch)) {
+      text += ch;
+      map.push(i);
+    } else if (text && !text.endsWith(" ")) {
+      text += " ";
+      map.push(i);
+    }
+  }
+  return { text: text.trimEnd(), map };
+};
+
+const toItems = (page: PageText, rawStart: number, rawEnd: number) => {
+  const first = page.items.findIndex(item => item.end > rawStart);
+  let last = first;
+  while (last + 1 < page.items.length && page.items[last + 1].start < rawEnd) last++;
+  return first === -1 ? null : { firstItem: first, lastItem: last };
+};
+
+// Finds the densest cluster of shingle hits no wider than `maxSpan`
+const bestCluster = (hits: { start: number; end: number }[], maxSpan: number) => {
+  hits.sort((a, b) => a.start - b.start);
+  let best = { count: 0, start: 0, end: 0 };
+  let lo = 0;
+  for (let hi = 0; hi < hits.length; hi++) {
+    while (hits[hi].end - hits[lo].start > maxSpan) lo++;
+    if (hi - lo + 1 > best.count) {
+      best = { count: hi - lo + 1, start: hits[lo].start, end: Math.max(...hits.slice(lo, hi + 1).map(h => h.end)) };
+    }
+  }
+  return best;
+};
+
+const matchPage = (page: PageText, query: string) => {
+  const { text, map } = normalize(page.text);
+  if (!text) return null;
+
+  const exact = text.indexOf(query);
+  if (exact !== -1) {
+    return { score: 1, range: toItems(page, map[exact], map[exact + query.length - 1] + 1) };
+  }
+
+  const words = query.split(" ");
+  const shingles: string[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.push(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  if (!shingles.length) shingles.push(query);
+
+  const hits: { start: number; end: number }[] = [];
+  for (const shingle of shingles) {
+    for (let at = text.indexOf(shingle); at !== -1; at = text.indexOf(shingle, at + 1)) {
+      hits.push({ start: at, end: at + shingle.length });
+    }
+  }
+  if (!hits.length) return null;
+
+  const cluster = bestCluster(hits, Math.ceil(query.length * 1.5));
+  const score = Math.min(cluster.count / shingles.length, 1);
+  return { score, range: toItems(page, map[cluster.start], map[cluster.end - 1] + 1) };
+};
+
+// Locates a source excerpt in the document. Pages near `pageHint` are tried
+// first; an exact match there wins outright, otherwise the best fuzzy match
+// across the whole document is returned.
+export async function findPassage(
+  pdf: PDFDocumentProxy,
+  excerpt: string,
+  pageHint?: number
+): Promise<PassageMatch | null> {
+  const query = normalize(excerpt).text;
+  if (!query) return null;
+
+  const order = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+  if (pageHint) {
+    const near = [pageHint, pageHint - 1, pageHint + 1].filter(p => p >= 1 && p <= pdf.numPages);
+    order.splice(0, order.length, ...near, ...order.filter(p => !near.includes(p)));
+  }
+
+  let best: PassageMatch | null = null;
+  let bestScore = 0;
+  for (const pageNumber of order) {
+    const match = matchPage(await getPageText(pdf, pageNumber), query);
+    if (!match?.range || match.score < MIN_FUZZY_SCORE || match.score <= bestScore) continue;
+    best = { pageNumber, ...match.range };
+    bestScore = match.score;
+    if (bestScore === 1) break;
+  }
+  return best;
+}
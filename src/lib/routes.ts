@@ -0,0 +1,33 @@
+import type { Conversation, Document } from "@/types/chat";
+
+// URLs of the chat screens. Documents are addressed by their backend session
+// so links survive a reload; conversations without a live document (imported
+// transcripts, documents that expired) fall back to /chat/:conversationId.
+
+export const ROUTES = {
+  home: "/",
+  document: "/doc/:sessionId",
+  conversation: "/doc/:sessionId/chat/:conversationId",
+  transcript: "/chat/:conversationId",
+  // Two documents side by side, older first
+  compare: "/compare/:leftSessionId/:rightSessionId",
+  // Where the identity provider sends the browser back after sign-in
+  authCallback: "/auth/callback"
+} as const;
+
+export const documentPath = (sessionId: string) => `/doc/${encodeURIComponent(sessionId)}`;
+
+export const comparePath = (left: string, right: string) =>
+  `/compare/${encodeURIComponent(left)}/${encodeURIComponent(right)}`;
+
+export function conversationPath(conversation: Conversation, documents: Document[]) {
+  const sessionId = documents.find(d => conversation.documentIds.includes(d.id) && d.uploaded && d.sessionId)?.sessionId;
+  const id = encodeURIComponent(conversation.id);
+  return sessionId ? `${documentPath(sessionId)}/chat/${id}` : `/chat/${id}`;
+}
+
+// Where the app should be for a selection with no conversation open
+export const selectionPath = (documents: Document[]) => {
+  const first = documents.find(d => d.selected && d.uploaded && d.sessionId);
+  return first?.sessionId ? documentPath(first.sessionId) : ROUTES.home;
+};
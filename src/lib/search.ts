@@ -0,0 +1,126 @@
+import type { Conversation, Message, MessageSource } from "@/types/chat";
+
+// Full-text search over every stored conversation: the messages themselves
+// and the source excerpts attached to answers
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  conversation: Conversation;
+  message: Message;
+  // Set when the match is in one of the answer's sources rather than its text
+  source?: MessageSource;
+  snippet: HighlightPart[];
+  score: number;
+}
+
+// Characters of context kept either side of the first match
+const SNIPPET_CONTEXT = 60;
+const DEFAULT_LIMIT = 50;
+// A match in what was actually said outranks one in a retrieved excerpt
+const SOURCE_WEIGHT = 0.5;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const tokenize = (query: string) => [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+
+// Sorted, non-overlapping [start, end) ranges of every term occurrence
+const matchRanges = (text: string, pattern: RegExp) => {
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else ranges.push([start, end]);
+  }
+  return ranges;
+};
+
+/**
+ * Scores `text` against the query terms: null unless every term occurs,
+ * otherwise more for repeated terms, terms at the start of a word and the
+ * whole query appearing as a phrase.
+ */
+const scoreText = (text: string, terms: string[], phrase: string) => {
+  const lower = text.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const occurrences = lower.split(term).length - 1;
+    if (!occurrences) return null;
+    score += Math.min(occurrences, 3);
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}`, "u").test(lower)) score += 1;
+  }
+  if (terms.length > 1 && lower.includes(phrase)) score += 5;
+  return score;
+};
+
+// A window of `text` around its first match, split into highlighted and plain parts
+const snippet = (text: string, pattern: RegExp): HighlightPart[] => {
+  const ranges = matchRanges(text, pattern);
+  const first = ranges[0] ?? [0, 0];
+  let start = Math.max(0, first[0] - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, first[1] + SNIPPET_CONTEXT * 2);
+  // Don't cut words in half
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < first[0]) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > first[1]) end = space;
+  }
+
+  const parts: HighlightPart[] = [];
+  let cursor = start;
+  for (const [from, to] of ranges) {
+    if (to <= start || from >= end) continue;
+    if (from > cursor) parts.push({ text: text.slice(cursor, from), match: false });
+    parts.push({ text: text.slice(Math.max(from, start), Math.min(to, end)), match: true });
+    cursor = Math.min(to, end);
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+  if (start > 0) parts.unshift({ text: "…", match: false });
+  if (end < text.length) parts.push({ text: "…", match: false });
+  return parts;
+};
+
+// Newlines and Markdown spacing would only break up snippets
+const flatten = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * Finds every message and source excerpt containing all words of `query`,
+ * best matches first and newest first among equals. Each message appears at
+ * most twice: once for its own text and once for its best-matching source.
+ */
+export function searchConversations(conversations: Conversation[], query: string, limit = DEFAULT_LIMIT): SearchHit[] {
+  const terms = tokenize(query);
+  if (!terms.length) return [];
+  const phrase = terms.join(" ");
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "gi");
+
+  const hits: SearchHit[] = [];
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      const text = flatten(message.content);
+      const score = scoreText(text, terms, phrase);
+      if (score !== null) hits.push({ conversation, message, snippet: snippet(text, pattern), score });
+
+      let best: SearchHit | undefined;
+      for (const source of message.sources ?? []) {
+        const excerpt = flatten(source.content);
+        const sourceScore = scoreText(excerpt, terms, phrase);
+        if (sourceScore === null || (best && best.score >= sourceScore * SOURCE_WEIGHT)) continue;
+        best = { conversation, message, source, snippet: snippet(excerpt, pattern), score: sourceScore * SOURCE_WEIGHT };
+      }
+      if (best) hits.push(best);
+    }
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || b.message.timestamp.getTime() - a.message.timestamp.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,120 @@
+// Keyboard commands and their bindings. A binding is a string such as
+// "Mod+Shift+K": modifiers first, then the key. Mod is ⌘ on macOS and Ctrl
+// elsewhere. Users can rebind any command; overrides live in localStorage.
+
+import { t } from "@/lib/i18n";
+
+export type CommandId =
+  | "command-palette"
+  | "search"
+  | "shortcut-help"
+  | "upload"
+  | "next-document"
+  | "previous-document"
+  | "new-conversation"
+  | "toggle-sidebar"
+  | "toggle-sources"
+  | "copy-answer"
+  | "focus-input";
+
+export interface Command {
+  id: CommandId;
+  defaultBinding: string;
+}
+
+// Defaults avoid combinations browsers won't let a page intercept (Ctrl+N, Ctrl+T, Ctrl+W...)
+export const COMMANDS: Command[] = [
+  { id: "command-palette", defaultBinding: "Mod+/" },
+  { id: "search", defaultBinding: "Mod+K" },
+  { id: "shortcut-help", defaultBinding: "?" },
+  { id: "upload", defaultBinding: "Alt+U" },
+  { id: "next-document", defaultBinding: "Alt+ArrowDown" },
+  { id: "previous-document", defaultBinding: "Alt+ArrowUp" },
+  { id: "new-conversation", defaultBinding: "Alt+N" },
+  { id: "toggle-sidebar", defaultBinding: "Mod+B" },
+  { id: "toggle-sources", defaultBinding: "Alt+S" },
+  { id: "copy-answer", defaultBinding: "Alt+C" },
+  { id: "focus-input", defaultBinding: "/" }
+];
+
+export const commandLabel = (id: CommandId) => t(`command.${id}`);
+
+// null leaves a command without a shortcut
+export type Bindings = Record<CommandId, string | null>;
+
+const STORAGE_KEY = "docuchat.shortcuts";
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const defaultBindings = () =>
+  Object.fromEntries(COMMANDS.map(c => [c.id, c.defaultBinding])) as Bindings;
+
+export function loadBindings(): Bindings {
+  const bindings = defaultBindings();
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    for (const command of COMMANDS) {
+      const value = (saved as Record<string, unknown>)?.[command.id];
+      if (typeof value === "string" || value === null) bindings[command.id] = value;
+    }
+  } catch (error) {
+    console.error("Failed to load keyboard shortcuts:", error);
+  }
+  return bindings;
+}
+
+// Only overrides are stored, so changed defaults reach users who kept them
+export function saveBindings(bindings: Bindings) {
+  const overrides = Object.fromEntries(COMMANDS
+    .filter(c => bindings[c.id] !== c.defaultBinding)
+    .map(c => [c.id, bindings[c.id]]));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error("Failed to save keyboard shortcuts:", error);
+  }
+}
+
+const MODIFIER_KEYS = ["Control", "Meta", "Shift", "Alt", "AltGraph", "CapsLock"];
+
+/**
+ * The binding a keydown event would trigger, or null for a lone modifier.
+ * Letters and digits are read from the physical key so Alt and Shift don't
+ * turn them into other characters; for symbols Shift is already part of the
+ * character ("?" rather than "Shift+/").
+ */
+export function eventToBinding(e: Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">) {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const physical = /^(Key[A-Z]|Digit\d)$/.test(e.code) ? e.code.slice(-1) : null;
+  const key = physical ?? (e.key === " " ? "Space" : e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  const shiftMatters = !!physical || e.key.length > 1;
+
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push("Mod");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey && shiftMatters) parts.push("Shift");
+  parts.push(key);
+  return parts.join("+");
+}
+
+const KEY_LABELS: Record<string, string> = {
+  Mod: isMac ? "⌘" : "Ctrl",
+  Alt: isMac ? "⌥" : "Alt",
+  Shift: isMac ? "⇧" : "Shift",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Escape: "Esc"
+};
+
+// The keys of a binding as they should be shown, one entry per <kbd>
+export const formatBinding = (binding: string) =>
+  binding.split(/\+(?!$)/).map(key => KEY_LABELS[key] ?? key);
+
+// Shortcuts without Mod or Alt would swallow ordinary typing in text fields
+export const isPlainKey = (binding: string) => !/^(Mod|Alt)\+/.test(binding);
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
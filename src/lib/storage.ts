@@ -0,0 +1,165 @@
+import type { Conversation, Document, Feedback } from "@/types/chat";
+
+// IndexedDB persistence for the document list, the original files, every
+// conversation and the answer feedback, so a reload picks up where the user left off.
+// Each signed-in user gets a database of their own.
+
+const DB_NAME = "docuchat";
+const DB_VERSION = 2;
+
+const DOCUMENTS = "documents";
+const FILES = "files";
+const CONVERSATIONS = "conversations";
+const FEEDBACK = "feedback";
+
+type StoreName = typeof DOCUMENTS | typeof FILES | typeof CONVERSATIONS | typeof FEEDBACK;
+
+// Upload progress and selection are session-only UI state
+export type StoredDocument = Omit<Document, "file" | "selected" | "progress" | "phase" | "awaiting" | "summarizing">;
+
+export interface Workspace {
+  documents: Document[];
+  conversations: Conversation[];
+  feedback: Feedback[];
+}
+
+let dbName = DB_NAME;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const workspaceName = (owner: string | null) => owner ? `${DB_NAME}:${owner}` : DB_NAME;
+
+const closeDb = () => {
+  dbPromise?.then(db => db.close(), () => {});
+  dbPromise = null;
+};
+
+// Points every later read and write at `owner`'s workspace; null is the one used signed out
+export const selectWorkspace = (owner: string | null) => {
+  const name = workspaceName(owner);
+  if (name === dbName) return;
+  closeDb();
+  dbName = name;
+};
+
+// Drops everything stored for `owner`, files included
+export const deleteWorkspace = (owner: string | null) => {
+  const name = workspaceName(owner);
+  if (name === dbName) closeDb();
+  return new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(name);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(dbName, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(DOCUMENTS)) db.createObjectStore(DOCUMENTS, { keyPath: "id" });
+      // Files are stored out of line, keyed by document id
+      if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES);
+      if (!db.objectStoreNames.contains(CONVERSATIONS)) db.createObjectStore(CONVERSATIONS, { keyPath: "id" });
+      // One rating per answer, so re-rating replaces it
+      if (!db.objectStoreNames.contains(FEEDBACK)) db.createObjectStore(FEEDBACK, { keyPath: "messageId" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Runs `work` in one transaction and resolves once it has committed
+const transaction = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export const toStoredDocument = (doc: Document): StoredDocument => {
+  const stored: Partial<Document> = { ...doc };
+  delete stored.file;
+  delete stored.selected;
+  delete stored.progress;
+  delete stored.phase;
+  delete stored.awaiting;
+  delete stored.summarizing;
+  return stored as StoredDocument;
+};
+
+export async function loadWorkspace(): Promise<Workspace> {
+  return transaction([DOCUMENTS, FILES, CONVERSATIONS, FEEDBACK], "readonly", async tx => {
+    const [storedDocs, fileKeys, files, conversations, feedback] = await Promise.all([
+      promisify(tx.objectStore(DOCUMENTS).getAll() as IDBRequest<StoredDocument[]>),
+      promisify(tx.objectStore(FILES).getAllKeys()),
+      promisify(tx.objectStore(FILES).getAll() as IDBRequest<File[]>),
+      promisify(tx.objectStore(CONVERSATIONS).getAll() as IDBRequest<Conversation[]>),
+      promisify(tx.objectStore(FEEDBACK).getAll() as IDBRequest<Feedback[]>)
+    ]);
+    const fileById = new Map(fileKeys.map((key, i) => [String(key), files[i]]));
+
+    return {
+      documents: storedDocs.map(doc => ({
+        ...doc,
+        file: fileById.get(doc.id),
+        selected: false,
+        progress: doc.uploaded ? 100 : 0
+      })),
+      conversations: conversations
+        .map(conversation => ({
+          ...conversation,
+          // An answer that was mid-stream when the page closed can never finish
+          messages: conversation.messages.map(m => m.streaming ? { ...m, streaming: false, stopped: true } : m)
+        }))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+      feedback
+    };
+  });
+}
+
+// Writes `doc`'s metadata, and `file` alongside it when given. Files can be
+// many megabytes, so callers pass one only when it is new or has changed.
+export const saveDocument = (doc: Document, file?: File) =>
+  transaction([DOCUMENTS, FILES], "readwrite", tx => {
+    tx.objectStore(DOCUMENTS).put(toStoredDocument(doc));
+    if (file) tx.objectStore(FILES).put(file, doc.id);
+  });
+
+export const deleteDocument = (id: string) =>
+  transaction([DOCUMENTS, FILES], "readwrite", tx => {
+    tx.objectStore(DOCUMENTS).delete(id);
+    tx.objectStore(FILES).delete(id);
+  });
+
+export const saveConversation = (conversation: Conversation) =>
+  transaction([CONVERSATIONS], "readwrite", tx => { tx.objectStore(CONVERSATIONS).put(conversation); });
+
+export const deleteConversation = (id: string) =>
+  transaction([CONVERSATIONS], "readwrite", tx => { tx.objectStore(CONVERSATIONS).delete(id); });
+
+export const saveFeedback = (feedback: Feedback) =>
+  transaction([FEEDBACK], "readwrite", tx => { tx.objectStore(FEEDBACK).put(feedback); });
+
+export const deleteFeedback = (messageId: string) =>
+  transaction([FEEDBACK], "readwrite", tx => { tx.objectStore(FEEDBACK).delete(messageId); });
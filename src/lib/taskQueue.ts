@@ -0,0 +1,27 @@
+export type Task = () => Promise<unknown>;
+
+// Runs at most `concurrency` tasks at a time, in the order they were added
+export function createTaskQueue(concurrency: number) {
+  const pending: Task[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < concurrency && pending.length) {
+      const task = pending.shift()!;
+      running++;
+      task()
+        .catch(() => {})
+        .finally(() => {
+          running--;
+          next();
+        });
+    }
+  };
+
+  return {
+    add(task: Task) {
+      pending.push(task);
+      next();
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, toHunks, type TextLine } from "@/lib/textDiff";
+
+const lines = (page: number, ...texts: string[]): TextLine[] => texts.map(text => ({ text, page }));
+
+describe("diffLines", () => {
+  it("reports added and removed lines with the page they are on", () => {
+    const ops = diffLines(
+      lines(1, "1. Term", "The term is one year.", "2. Payment", "Net 30 days."),
+      [...lines(1, "1. Term", "The term is two years.", "2. Payment"), ...lines(2, "Net 30 days.", "3. Renewal")]
+    );
+
+    expect(ops.filter(op => op.type !== "equal")).toEqual([
+      { type: "removed", text: "The term is one year.", leftPage: 1 },
+      { type: "added", text: "The term is two years.", rightPage: 1 },
+      { type: "added", text: "3. Renewal", rightPage: 2 }
+    ]);
+    expect(ops.find(op => op.text === "Net 30 days.")).toMatchObject({ type: "equal", leftPage: 1, rightPage: 2 });
+  });
+
+  it("ignores differences in spacing only", () => {
+    const ops = diffLines(lines(1, "Fees  are due"), lines(1, "Fees are due "));
+    expect(ops.map(op => op.type)).toEqual(["equal"]);
+  });
+
+  it("keeps a moved section anchored instead of rewriting everything after it", () => {
+    const ops = diffLines(
+      lines(1, "A", "Intro", "B", "Body", "C", "End"),
+      lines(1, "B", "Body", "A", "Intro", "C", "End")
+    );
+    expect(ops.filter(op => op.type === "equal").map(op => op.text)).toContain("End");
+    expect(ops.filter(op => op.type === "removed")).toHaveLength(2);
+    expect(ops.filter(op => op.type === "added")).toHaveLength(2);
+  });
+});
+
+describe("toHunks", () => {
+  it("splits distant changes and keeps context around each", () => {
+    const left = lines(1, "a", "b", "c", "d", "e", "f", "g", "h", "i", "j");
+    const right = lines(1, "a", "B", "c", "d", "e", "f", "g", "h", "I", "j");
+
+    const hunks = toHunks(diffLines(left, right), 1);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].ops.map(op => op.text)).toEqual(["a", "b", "B", "c"]);
+    expect(hunks[1]).toMatchObject({ added: 1, removed: 1, leftPage: 1, rightPage: 1 });
+  });
+});
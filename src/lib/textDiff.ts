@@ -0,0 +1,195 @@
+import { loadPdf } from "@/lib/pdf";
+import { getPageText } from "@/lib/pdfSearch";
+
+// Line-level comparison of two documents' extracted text, for "what changed
+// between v1 and v2" questions
+
+export interface TextLine {
+  text: string;
+  // 1-based page the line was found on
+  page: number;
+}
+
+export interface DiffOp {
+  type: "equal" | "removed" | "added";
+  text: string;
+  // Pages in the left (old) and right (new) document; unchanged lines have both
+  leftPage?: number;
+  rightPage?: number;
+}
+
+// A run of changes with a few unchanged lines around it
+export interface DiffHunk {
+  ops: DiffOp[];
+  added: number;
+  removed: number;
+  // Where the hunk starts in each document
+  leftPage?: number;
+  rightPage?: number;
+}
+
+// Above this many cells the quadratic fallback gives up and reports a replacement
+const MAX_LCS_CELLS = 1_000_000;
+
+// Reflowed text differs in spacing only; that isn't a change
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// Every non-empty line of a PDF's text layer, in reading order
+export async function extractPdfLines(file: File, password?: string): Promise<TextLine[]> {
+  const pdf = await loadPdf(file, password);
+  const lines: TextLine[] = [];
+  for (let page = 1; page <= pdf.numPages; page++) {
+    const { text } = await getPageText(pdf, page);
+    for (const line of text.split("\n")) {
+      const normalized = normalize(line);
+      if (normalized) lines.push({ text: normalized, page });
+    }
+  }
+  return lines;
+}
+
+// Indices of the longest increasing subsequence of `values` (patience sorting)
+function longestIncreasing(values: number[]) {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length);
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+  const result: number[] = [];
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) result.unshift(i);
+  return result;
+}
+
+/**
+ * Patience diff: lines that occur exactly once on both sides anchor the
+ * comparison, and the gaps between anchors are compared recursively, so moved
+ * headings and repeated boilerplate don't derail it. Gaps without anchors fall
+ * back to a plain longest-common-subsequence diff while they are small enough.
+ */
+export function diffLines(left: TextLine[], right: TextLine[]): DiffOp[] {
+  const a = left.map(line => normalize(line.text));
+  const b = right.map(line => normalize(line.text));
+  const ops: DiffOp[] = [];
+
+  const equal = (i: number, j: number) =>
+    ops.push({ type: "equal", text: right[j].text, leftPage: left[i].page, rightPage: right[j].page });
+  const removed = (i: number) => ops.push({ type: "removed", text: left[i].text, leftPage: left[i].page });
+  const added = (j: number) => ops.push({ type: "added", text: right[j].text, rightPage: right[j].page });
+
+  const lcs = (a0: number, a1: number, b0: number, b1: number) => {
+    const n = a1 - a0;
+    const m = b1 - b0;
+    // lengths[i * (m + 1) + j]: common subsequence length of a[a0 + i..] and b[b0 + j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = a[a0 + i] === b[b0 + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[a0 + i] === b[b0 + j]) equal(a0 + i++, b0 + j++);
+      else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) removed(a0 + i++);
+      else added(b0 + j++);
+    }
+    while (i < n) removed(a0 + i++);
+    while (j < m) added(b0 + j++);
+  };
+
+  const uniqueAnchors = (a0: number, a1: number, b0: number, b1: number) => {
+    const counts = new Map<string, { a: number; b: number; ai: number; bj: number }>();
+    for (let i = a0; i < a1; i++) {
+      const entry = counts.get(a[i]) ?? { a: 0, b: 0, ai: i, bj: -1 };
+      entry.a++;
+      counts.set(a[i], entry);
+    }
+    for (let j = b0; j < b1; j++) {
+      const entry = counts.get(b[j]);
+      if (!entry) continue;
+      entry.b++;
+      entry.bj = j;
+    }
+    const pairs = [...counts.values()]
+      .filter(entry => entry.a === 1 && entry.b === 1)
+      .sort((x, y) => x.ai - y.ai);
+    return longestIncreasing(pairs.map(pair => pair.bj)).map(k => pairs[k]);
+  };
+
+  const diffRange = (a0: number, a1: number, b0: number, b1: number) => {
+    while (a0 < a1 && b0 < b1 && a[a0] === b[b0]) equal(a0++, b0++);
+    let suffix = 0;
+    while (a1 - suffix > a0 && b1 - suffix > b0 && a[a1 - suffix - 1] === b[b1 - suffix - 1]) suffix++;
+    diffMiddle(a0, a1 - suffix, b0, b1 - suffix);
+    for (let k = suffix; k > 0; k--) equal(a1 - k, b1 - k);
+  };
+
+  const diffMiddle = (a0: number, a1: number, b0: number, b1: number) => {
+    if (a0 === a1 || b0 === b1) {
+      for (let i = a0; i < a1; i++) removed(i);
+      for (let j = b0; j < b1; j++) added(j);
+      return;
+    }
+    const anchors = uniqueAnchors(a0, a1, b0, b1);
+    if (anchors.length) {
+      let i = a0;
+      let j = b0;
+      for (const { ai, bj } of anchors) {
+        diffRange(i, ai, j, bj);
+        equal(ai, bj);
+        i = ai + 1;
+        j = bj + 1;
+      }
+      diffRange(i, a1, j, b1);
+    } else if ((a1 - a0) * (b1 - b0) <= MAX_LCS_CELLS) {
+      lcs(a0, a1, b0, b1);
+    } else {
+      for (let i = a0; i < a1; i++) removed(i);
+      for (let j = b0; j < b1; j++) added(j);
+    }
+  };
+
+  diffRange(0, a.length, 0, b.length);
+  return ops;
+}
+
+// Groups changes into hunks, keeping `context` unchanged lines on either side
+export function toHunks(ops: DiffOp[], context = 2): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let start = -1;
+  let end = -1;
+
+  const close = () => {
+    const slice = ops.slice(Math.max(0, start - context), Math.min(ops.length, end + 1 + context));
+    hunks.push({
+      ops: slice,
+      added: slice.filter(op => op.type === "added").length,
+      removed: slice.filter(op => op.type === "removed").length,
+      leftPage: slice.find(op => op.leftPage !== undefined)?.leftPage,
+      rightPage: slice.find(op => op.rightPage !== undefined)?.rightPage
+    });
+  };
+
+  ops.forEach((op, i) => {
+    if (op.type === "equal") return;
+    // Changes close enough to share their context belong to one hunk
+    if (start >= 0 && i - end > context * 2 + 1) {
+      close();
+      start = -1;
+    }
+    if (start < 0) start = i;
+    end = i;
+  });
+  if (start >= 0) close();
+  return hunks;
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { parseTranscript, toMarkdown, toTranscript } from "@/lib/transcript";
+import { setLocale } from "@/lib/i18n";
+import type { Conversation } from "@/types/chat";
+
+const conversation: Conversation = {
+  id: "c1",
+  title: "Lease terms",
+  documentIds: ["d1"],
+  createdAt: new Date("2026-03-01T09:00:00Z"),
+  updatedAt: new Date("2026-03-01T09:05:00Z"),
+  messages: [
+    { id: "m1", role: "user", content: "How long is the term?", timestamp: new Date("2026-03-01T09:00:00Z") },
+    {
+      id: "m2", parentId: "m1", role: "bot", content: "Two years [1].", timestamp: new Date("2026-03-01T09:00:05Z"),
+      sources: [{ content: "The term is two years.", source: "lease.pdf", type: "pdf", page: 2, documentId: "d1", documentName: "lease.pdf" }]
+    }
+  ]
+};
+
+afterEach(() => setLocale("en"));
+
+describe("transcripts", () => {
+  it("labels a Markdown export in the interface language", () => {
+    setLocale("fr");
+
+    const markdown = toMarkdown(conversation, ["lease.pdf"]);
+
+    expect(markdown).toContain("- Documents : lease.pdf");
+    expect(markdown).toMatch(/^- Commencée : /m);
+    expect(markdown).toContain("### Vous · ");
+    expect(markdown).toContain("1. **lease.pdf, p. 3 (pdf)**");
+  });
+
+  it("reads back its own JSON export with fresh message ids", () => {
+    const imported = parseTranscript(JSON.stringify(toTranscript(conversation, ["lease.pdf"])), "c2");
+
+    expect(imported).toMatchObject({ id: "c2", title: "Lease terms", documentNames: ["lease.pdf"], readOnly: true });
+    expect(imported.messages.map(m => [m.id, m.content])).toEqual([["c2-0", "How long is the term?"], ["c2-1", "Two years [1]."]]);
+  });
+
+  it("explains why a file can't be imported in the interface language", () => {
+    setLocale("fr");
+
+    expect(() => parseTranscript("not json", "c3")).toThrow("Transcription invalide : ce n'est pas un fichier JSON");
+    expect(parseTranscript(JSON.stringify({ ...toTranscript(conversation, []), conversation: {
+      ...toTranscript(conversation, []).conversation, title: ""
+    } }), "c4").title).toBe("Conversation importée");
+  });
+});
@@ -0,0 +1,246 @@
+import type { Conversation, Message, MessageSource } from "@/types/chat";
+import { formatDate, formatTime, localeDirection, t } from "@/lib/i18n";
+import { availableStyle, fontFamilyFor, hasRtl, isRtl, loadPdfFonts, type PdfFontStyle } from "@/lib/pdfFonts";
+
+// Conversation export (Markdown, JSON, PDF) and re-import of JSON transcripts
+
+const TRANSCRIPT_FORMAT = "docuchat-transcript";
+const TRANSCRIPT_VERSION = 1;
+
+// Dates travel as ISO strings; everything else mirrors the in-app types
+interface TranscriptMessage extends Omit<Message, "timestamp" | "streaming" | "pending"> {
+  timestamp: string;
+}
+
+export interface Transcript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: {
+    id: string;
+    title: string;
+    documents: string[];
+    createdAt: string;
+    updatedAt: string;
+    messages: TranscriptMessage[];
+  };
+}
+
+// Exports are written in the interface language, like everything else the user sees
+const roleLabel = (message: Message) => message.role === "user" ? t("chat.you") : t("app.name");
+
+const formatDateTime = (date: Date) => `${formatDate(date)} ${formatTime(date)}`;
+
+const documentList = (documentNames: string[]) =>
+  t("transcript.documents", { names: documentNames.join(", ") || t("transcript.noDocuments") });
+
+const sourceLabel = (source: MessageSource) =>
+  `${source.documentName}${source.page !== undefined ? `, ${t("source.page", { page: source.page + 1 })}` : ""} (${source.type})`;
+
+// File names keep the title readable but safe on every OS
+export const exportFileName = (conversation: Conversation, extension: string) => {
+  const base = conversation.title.replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "").slice(0, 60);
+  return `${base || "conversation"}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox and older Safari cancel the download if the URL goes away in the same task
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export function toTranscript(conversation: Conversation, documentNames: string[]): Transcript {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      documents: documentNames,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+      messages: conversation.messages.map(message => {
+        const exported: Partial<Message> = { ...message };
+        delete exported.streaming;
+        delete exported.pending;
+        return { ...exported, timestamp: message.timestamp.toISOString() } as TranscriptMessage;
+      })
+    }
+  };
+}
+
+export function toMarkdown(conversation: Conversation, documentNames: string[]) {
+  const lines = [
+    `# ${conversation.title}`,
+    "",
+    `- ${documentList(documentNames)}`,
+    `- ${t("transcript.started", { date: formatDateTime(conversation.createdAt) })}`,
+    `- ${t("transcript.exported", { date: formatDateTime(new Date()) })}`
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push("", "---", "", `### ${roleLabel(message)} · ${formatDateTime(message.timestamp)}`, "", message.content);
+    if (message.stopped) lines.push("", `_${t("chat.stopped")}_`);
+    if (message.sources?.length) {
+      lines.push("", `**${t("transcript.sources")}**`, "");
+      message.sources.forEach((source, i) => {
+        lines.push(`${i + 1}. **${sourceLabel(source)}**`, "");
+        lines.push(...source.content.split("\n").map(line => `   > ${line}`), "");
+      });
+    }
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+interface PdfBlock {
+  text: string;
+  // Paragraph direction; labels follow the interface, content its own first letter
+  rtl: boolean;
+  size?: number;
+  style?: PdfFontStyle;
+  color?: number;
+  indent?: number;
+  gap?: number;
+}
+
+// jsPDF is only loaded when a PDF is actually requested. Each paragraph is
+// set in a font that has its script (see pdfFonts), and right-to-left
+// paragraphs are shaped, reordered and aligned to the right margin.
+export async function toPdf(conversation: Conversation, documentNames: string[]) {
+  const rtlLabels = localeDirection() === "rtl";
+  // jsPDF's bidi engine misplaces the direction marks dates carry in right-to-left locales
+  const label = (text: string, block: Omit<PdfBlock, "text" | "rtl"> = {}): PdfBlock =>
+    ({ ...block, text: text.replace(/[\u200E\u200F\u061C]/g, ""), rtl: rtlLabels });
+  const content = (text: string, block: Omit<PdfBlock, "text" | "rtl"> = {}): PdfBlock =>
+    ({ ...block, text, rtl: isRtl(text) });
+
+  const blocks: PdfBlock[] = [
+    content(conversation.title, { size: 18, style: "bold", gap: 8 }),
+    label(documentList(documentNames), { color: 100, gap: 0 }),
+    label(
+      `${t("transcript.started", { date: formatDateTime(conversation.createdAt) })} · ${t("transcript.exported", { date: formatDateTime(new Date()) })}`,
+      { color: 100, gap: 16 }
+    )
+  ];
+  for (const message of conversation.messages) {
+    blocks.push(label(`${roleLabel(message)} · ${formatDateTime(message.timestamp)}`, { size: 11, style: "bold" }));
+    const sources = message.sources ?? [];
+    blocks.push(content(message.content, { gap: sources.length ? 8 : 16 }));
+    if (message.stopped) blocks.push(label(t("chat.stopped"), { style: "italic", color: 100 }));
+    sources.forEach((source, i) => {
+      blocks.push(label(`[${i + 1}] ${sourceLabel(source)}`, { size: 9, style: "bold", color: 70, indent: 12, gap: 0 }));
+      // The last source leaves room before the next message
+      blocks.push(content(source.content, { size: 9, color: 90, indent: 12, gap: i === sources.length - 1 ? 16 : 6 }));
+    });
+  }
+
+  const { jsPDF } = await import("jspdf");
+  const pdf = new jsPDF({ unit: "pt", format: "a4" });
+  await loadPdfFonts(pdf, blocks.map(block => [fontFamilyFor(block.text), block.style ?? "normal"]));
+  const margin = 48;
+  const width = pdf.internal.pageSize.getWidth() - margin * 2;
+  const bottom = pdf.internal.pageSize.getHeight() - margin;
+  let y = margin;
+
+  for (const { text, rtl, size = 10, style = "normal", color = 30, indent = 0, gap = 4 } of blocks) {
+    const family = fontFamilyFor(text);
+    // Lines are wrapped in reading order, then laid out left to right by jsPDF's bidi engine
+    const bidi = hasRtl(text)
+      ? { isInputVisual: false, isOutputVisual: true, isInputRtl: rtl, isOutputRtl: false, isSymmetricSwapping: true }
+      : {};
+    pdf.setFont(family, availableStyle(family, style));
+    pdf.setFontSize(size);
+    pdf.setTextColor(color);
+    const lineHeight = size * 1.35;
+    for (const line of pdf.splitTextToSize(text, width - indent) as string[]) {
+      if (y + lineHeight > bottom) {
+        pdf.addPage();
+        y = margin;
+      }
+      if (rtl) pdf.text(line, margin + width - indent, y + size, { ...bidi, align: "right" });
+      else pdf.text(line, margin + indent, y + size, bidi);
+      y += lineHeight;
+    }
+    y += gap;
+  }
+
+  return pdf.output("blob");
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const toDate = (value: unknown) => {
+  const date = new Date(typeof value === "string" ? value : NaN);
+  if (isNaN(date.getTime())) throw new Error(t("errors.transcript.badDate"));
+  return date;
+};
+
+const toSource = (value: unknown): MessageSource => {
+  if (!isRecord(value) || typeof value.content !== "string") {
+    throw new Error(t("errors.transcript.badSource"));
+  }
+  const source = typeof value.source === "string" ? value.source : "";
+  return {
+    content: value.content,
+    source,
+    type: typeof value.type === "string" ? value.type : "pdf",
+    page: typeof value.page === "number" ? value.page : undefined,
+    documentId: typeof value.documentId === "string" ? value.documentId : "",
+    documentName: typeof value.documentName === "string" ? value.documentName : source
+  };
+};
+
+// Messages get fresh ids so importing the same transcript twice can't collide
+const toMessage = (value: unknown, id: string): Message => {
+  if (!isRecord(value) || (value.role !== "user" && value.role !== "bot") || typeof value.content !== "string") {
+    throw new Error(t("errors.transcript.badMessage"));
+  }
+  return {
+    id,
+    role: value.role,
+    content: value.content,
+    timestamp: toDate(value.timestamp),
+    sources: Array.isArray(value.sources) ? value.sources.map(toSource) : undefined,
+    stopped: value.stopped === true || undefined
+  };
+};
+
+// Imported conversations are read-only: their documents usually aren't in
+// this workspace, so there is no session to ask follow-up questions in
+export function parseTranscript(text: string, id: string): Conversation {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t("errors.transcript.notJson"));
+  }
+  if (!isRecord(data) || data.format !== TRANSCRIPT_FORMAT || !isRecord(data.conversation)) {
+    throw new Error(t("errors.transcript.notExport"));
+  }
+  if (typeof data.version !== "number" || data.version > TRANSCRIPT_VERSION) {
+    throw new Error(t("errors.transcript.newerVersion"));
+  }
+
+  const conversation = data.conversation;
+  if (!Array.isArray(conversation.messages)) throw new Error(t("errors.transcript.noMessages"));
+  const documents = Array.isArray(conversation.documents)
+    ? conversation.documents.filter((name): name is string => typeof name === "string")
+    : [];
+
+  return {
+    id,
+    title: typeof conversation.title === "string" && conversation.title ? conversation.title : t("transcript.importedTitle"),
+    documentIds: [],
+    documentNames: documents,
+    messages: conversation.messages.map((message, i) => toMessage(message, `${id}-${i}`)),
+    createdAt: toDate(conversation.createdAt),
+    updatedAt: new Date(),
+    readOnly: true
+  };
+}
@@ -0,0 +1,157 @@
+import type { UploadPolicyResponse } from "@/lib/api";
+import { detectDocumentType, getDocumentType, supportedFormats } from "@/lib/documentTypes";
+import { formatBytes, t } from "@/lib/i18n";
+
+// Limits every new upload is checked against. The backend can announce its
+// own through `/health`; otherwise VITE_* variables, then the defaults apply.
+export interface UploadPolicy {
+  maxFileSizeBytes: number;
+  // Only checked for formats whose page count is known before upload (PDF)
+  maxPages: number | null;
+  // Every document has a backend session of its own, so the cap is on the workspace
+  maxWorkspaceDocuments: number | null;
+  // Document type registry ids; null allows every registered type
+  allowedTypes: string[] | null;
+  rejectDuplicates: boolean;
+}
+
+export type ViolationCode = "type" | "size" | "pages" | "count" | "duplicate";
+
+export interface Violation {
+  code: ViolationCode;
+  message: string;
+}
+
+// A file that was turned away, with every reason at once
+export interface FileRejection {
+  id: string;
+  fileName: string;
+  violations: Violation[];
+}
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+  maxFileSizeBytes: 10 * MB,
+  maxPages: null,
+  maxWorkspaceDocuments: null,
+  allowedTypes: null,
+  rejectDuplicates: true
+};
+
+const positiveNumber = (value: unknown) => {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const typeList = (value: unknown) => {
+  const ids = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : undefined;
+  const list = ids?.filter((id): id is string => typeof id === "string").map(id => id.trim().toLowerCase()).filter(Boolean);
+  return list?.length ? list : undefined;
+};
+
+const flag = (value: unknown) =>
+  typeof value === "boolean" ? value : value === "true" ? true : value === "false" ? false : undefined;
+
+const envPolicy = (): Partial<UploadPolicy> => {
+  const env = import.meta.env;
+  const sizeMb = positiveNumber(env.VITE_MAX_FILE_SIZE_MB);
+  return {
+    maxFileSizeBytes: sizeMb && sizeMb * MB,
+    maxPages: positiveNumber(env.VITE_MAX_PAGES),
+    maxWorkspaceDocuments: positiveNumber(env.VITE_MAX_WORKSPACE_DOCUMENTS),
+    allowedTypes: typeList(env.VITE_ALLOWED_TYPES),
+    rejectDuplicates: flag(env.VITE_REJECT_DUPLICATES)
+  };
+};
+
+const backendPolicy = (policy?: UploadPolicyResponse): Partial<UploadPolicy> => {
+  const sizeMb = positiveNumber(policy?.max_file_size_mb);
+  return {
+    maxFileSizeBytes: sizeMb && sizeMb * MB,
+    maxPages: positiveNumber(policy?.max_pages),
+    maxWorkspaceDocuments: positiveNumber(policy?.max_workspace_documents),
+    allowedTypes: typeList(policy?.allowed_types),
+    rejectDuplicates: flag(policy?.reject_duplicates)
+  };
+};
+
+// Later sources only override the fields they actually set
+const merge = (...layers: Partial<UploadPolicy>[]) =>
+  layers.reduce<UploadPolicy>((policy, layer) => ({
+    ...policy,
+    ...Object.fromEntries(Object.entries(layer).filter(([, value]) => value !== undefined))
+  }), DEFAULT_UPLOAD_POLICY);
+
+export const resolveUploadPolicy = (fromBackend?: UploadPolicyResponse) =>
+  merge(envPolicy(), backendPolicy(fromBackend));
+
+export const describePolicy = (policy: UploadPolicy) => [
+  policy.allowedTypes?.map(id => getDocumentType(id).label).join(", ") ?? supportedFormats(),
+  t("policy.maxSize", { size: formatBytes(policy.maxFileSizeBytes) }),
+  policy.maxPages && t("policy.maxPages", { count: policy.maxPages }),
+  policy.maxWorkspaceDocuments && t("policy.maxDocuments", { count: policy.maxWorkspaceDocuments })
+].filter(Boolean).join(" • ");
+
+export async function hashFile(file: File) {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export interface FileCheck {
+  typeId?: string;
+  // Not computed for files already over the size limit
+  hash?: string;
+  violations: Violation[];
+}
+
+/**
+ * Runs every check that doesn't need the file parsed: type, size, document
+ * count and duplicates. `known` are the hashes already in the workspace (or
+ * earlier in the same batch) and `documentCount` how many documents it holds.
+ */
+export async function checkFile(
+  file: File,
+  policy: UploadPolicy,
+  { known, documentCount }: { known: Map<string, string>; documentCount: number }
+): Promise<FileCheck> {
+  const violations: Violation[] = [];
+  let typeId: string | undefined;
+
+  try {
+    const type = await detectDocumentType(file);
+    typeId = type.id;
+    if (policy.allowedTypes && !policy.allowedTypes.includes(type.id)) {
+      violations.push({ code: "type", message: t("policy.typeNotAllowed", { type: type.label }) });
+    }
+  } catch (error) {
+    violations.push({ code: "type", message: error instanceof Error ? error.message : t("policy.unsupportedType") });
+  }
+
+  if (file.size > policy.maxFileSizeBytes) {
+    violations.push({
+      code: "size",
+      message: t("policy.tooLarge", { size: formatBytes(file.size), limit: formatBytes(policy.maxFileSizeBytes) })
+    });
+  }
+
+  if (policy.maxWorkspaceDocuments && documentCount >= policy.maxWorkspaceDocuments) {
+    violations.push({
+      code: "count",
+      message: t("policy.tooMany", { count: policy.maxWorkspaceDocuments })
+    });
+  }
+
+  const hash = file.size <= policy.maxFileSizeBytes ? await hashFile(file) : undefined;
+  const duplicateOf = hash && known.get(hash);
+  if (policy.rejectDuplicates && duplicateOf) {
+    violations.push({ code: "duplicate", message: t("policy.duplicate", { name: duplicateOf }) });
+  }
+
+  return { typeId, hash, violations };
+}
+
+export const checkPageCount = (pageCount: number, policy: UploadPolicy): Violation | null =>
+  policy.maxPages && pageCount > policy.maxPages
+    ? { code: "pages", message: t("policy.tooManyPages", { count: pageCount, limit: policy.maxPages }) }
+    : null;
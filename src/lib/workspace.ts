@@ -0,0 +1,29 @@
+import type { Conversation, Document } from "@/types/chat";
+
+// Helpers shared by the chat screen and the hooks that upload documents,
+// answer questions and keep feedback in sync.
+
+export type QueryableDocument = Document & { sessionId: string };
+
+// Ready and backed by a backend session
+export const hasSession = (doc: Document): doc is QueryableDocument =>
+  doc.uploaded && !!doc.sessionId;
+
+// ...and selected for the next question
+export const isQueryable = (doc: Document): doc is QueryableDocument =>
+  doc.selected && hasSession(doc);
+
+export const createId = () => Math.random().toString(36).substring(2, 11);
+
+export const sameDocuments = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+// The documents a conversation can still ask
+export const conversationDocuments = (conversation: Conversation, documents: Document[]) =>
+  documents.filter(d => conversation.documentIds.includes(d.id)).filter(hasSession);
+
+// Imported transcripts keep the names they were exported with
+export const conversationDocumentNames = (conversation: Conversation, documents: Document[]) =>
+  conversation.documentNames ?? conversation.documentIds
+    .map(id => documents.find(d => d.id === id)?.name)
+    .filter((name): name is string => !!name);
@@ -0,0 +1,371 @@
+import type { Messages } from "@/lib/i18n";
+
+const ar: Messages = {
+  "app.name": "DocuChat AI",
+  "app.tagline": "ارفع المستندات وابدأ المحادثة",
+  "app.sidebar": "المستندات والمحادثات",
+  "app.openMenu": "فتح القائمة",
+  "app.closeMenu": "إغلاق القائمة",
+  "app.collapseSidebar": "طي الشريط الجانبي",
+  "app.expandSidebar": "توسيع الشريط الجانبي",
+
+  "common.close": "إغلاق",
+  "common.cancel": "إلغاء",
+  "common.send": "إرسال",
+  "common.save": "حفظ",
+  "common.skip": "تخطٍّ",
+
+  "status.connected": "متصل",
+  "status.offline": "غير متصل",
+  "status.reconnecting": "جارٍ إعادة الاتصال...",
+  "status.connecting": "جارٍ الاتصال",
+  "status.retry": "أعد المحاولة الآن",
+
+  "auth.title": "سجّل الدخول للمتابعة",
+  "auth.hint": "تُحفظ المستندات والمحادثات بشكل منفصل لكل حساب.",
+  "auth.signIn": "تسجيل الدخول",
+  "auth.redirecting": "جارٍ فتح صفحة تسجيل الدخول...",
+  "auth.completing": "جارٍ تسجيل دخولك...",
+  "auth.failed": "تعذّر تسجيل الدخول",
+  "auth.retry": "حاول مرة أخرى",
+  "auth.signedInAs": "مسجّل الدخول باسم {name}",
+  "auth.signOut": "تسجيل الخروج",
+  "auth.mockTitle": "موفّر هوية تجريبي",
+  "auth.mockHint": "للتطوير فقط: يمكن تسجيل الدخول بأي اسم، ولكل اسم مساحة عمل خاصة به.",
+  "auth.username": "اسم المستخدم",
+  "auth.continue": "متابعة",
+
+  "language.interface": "لغة الواجهة",
+  "language.answers": "لغة الإجابات",
+  "language.matchQuestion": "لغة السؤال",
+
+  "upload.add": "إضافة مستندات",
+  "upload.addButton": "إضافة مستندات",
+  "upload.hint": "أفلت الملفات هنا أو اضغط Enter للتصفح.",
+  "upload.dismiss": "تجاهل",
+  "upload.dismissAbout": "تجاهل الرسالة الخاصة بـ {name}",
+  "upload.unsupportedType": "{name} ليس نوع ملف مدعومًا. الأنواع المدعومة: {formats}.",
+  "upload.invalidContent": "لا يبدو أن {name} ملف {type} صالح.",
+
+  "documentType.text": "نص",
+
+  "policy.maxSize": "الحد الأقصى {size}",
+  "policy.maxPages_one": "صفحة واحدة كحد أقصى",
+  "policy.maxPages_two": "صفحتان كحد أقصى",
+  "policy.maxPages_few": "{count} صفحات كحد أقصى",
+  "policy.maxPages_other": "{count} صفحة كحد أقصى",
+  "policy.maxDocuments_one": "مستند واحد كحد أقصى",
+  "policy.maxDocuments_two": "مستندان كحد أقصى",
+  "policy.maxDocuments_few": "حتى {count} مستندات",
+  "policy.maxDocuments_other": "حتى {count} مستند",
+  "policy.typeNotAllowed": "ملفات {type} غير مسموح بها هنا.",
+  "policy.unsupportedType": "نوع ملف غير مدعوم.",
+  "policy.tooLarge": "{size} يتجاوز الحد المسموح به وهو {limit}.",
+  "policy.tooMany_one": "تحتوي مساحة العمل بالفعل على الحد الأقصى وهو مستند واحد.",
+  "policy.tooMany_two": "تحتوي مساحة العمل بالفعل على الحد الأقصى وهو مستندان.",
+  "policy.tooMany_few": "تحتوي مساحة العمل بالفعل على الحد الأقصى وهو {count} مستندات.",
+  "policy.tooMany_other": "تحتوي مساحة العمل بالفعل على الحد الأقصى وهو {count} مستند.",
+  "policy.duplicate": "المحتوى نفسه موجود في {name} المرفوع مسبقًا.",
+  "policy.tooManyPages_one": "صفحة واحدة تتجاوز حد {limit} صفحة.",
+  "policy.tooManyPages_few": "{count} صفحات تتجاوز حد {limit} صفحة.",
+  "policy.tooManyPages_other": "{count} صفحة تتجاوز حد {limit} صفحة.",
+
+  "inspection.noText": "لم يُعثر على نص قابل للاستخراج. يبدو أن هذا الملف PDF ممسوح ضوئيًا أو مكوّن من صور فقط، لذا ستكون الإجابات فارغة ما لم يُعالَج بالتعرف الضوئي على الحروف أولًا.",
+  "inspection.someText": "تحتوي {textPages} فقط من أصل {sampledPages} صفحة مفحوصة على نص. لن يكون البحث ممكنًا في الصفحات المكوّنة من صور فقط.",
+
+  "documents.heading": "المستندات ({total})",
+  "documents.selectAll": "تحديد الكل",
+  "documents.clearSelection": "إلغاء التحديد",
+  "documents.empty": "لا توجد مستندات",
+  "documents.select": "تحديد {name}",
+  "documents.encrypted": "مشفّر",
+  "documents.pages_zero": "لا صفحات",
+  "documents.pages_one": "صفحة واحدة",
+  "documents.pages_two": "صفحتان",
+  "documents.pages_few": "{count} صفحات",
+  "documents.pages_many": "{count} صفحة",
+  "documents.pages_other": "{count} صفحة",
+  "documents.retry": "إعادة الرفع",
+  "documents.retryName": "إعادة رفع {name}",
+  "documents.cancel": "إلغاء الرفع",
+  "documents.cancelName": "إلغاء رفع {name}",
+  "documents.remove": "إزالة المستند",
+  "documents.removeName": "إزالة {name}",
+  "documents.phase.inspecting": "جارٍ فحص المستند...",
+  "documents.phase.queued": "في الانتظار...",
+  "documents.phase.session": "جارٍ إنشاء الجلسة...",
+  "documents.phase.uploading": "جارٍ الرفع...",
+  "documents.phase.processing": "جارٍ المعالجة على الخادم...",
+  "documents.wrongPassword": "كلمة المرور غير صحيحة، حاول مرة أخرى.",
+  "documents.passwordProtected": "ملف PDF هذا محمي بكلمة مرور.",
+  "documents.password": "كلمة المرور",
+  "documents.passwordFor": "كلمة مرور {name}",
+  "documents.unlock": "فتح القفل",
+  "documents.uploadAnyway": "الرفع على أي حال",
+  "documents.readyBadge": "جاهز",
+  "documents.ready": "{name} جاهز.",
+  "documents.sessionExpired": "انتهت صلاحية الجلسة على الخادم. أعد المحاولة لرفعه مرة أخرى.",
+
+  "conversations.heading": "المحادثات ({total})",
+  "conversations.import": "استيراد",
+  "conversations.importTitle": "استيراد نص محادثة بصيغة JSON",
+  "conversations.new": "محادثة جديدة",
+  "conversations.empty": "ستظهر محادثاتك هنا.",
+  "conversations.readOnly": "للقراءة فقط",
+  "conversations.delete": "حذف المحادثة",
+  "conversations.deleteName": "حذف المحادثة «{title}»",
+
+  "session.summary": "الجلسة: {documents}، {messages}",
+  "session.documents_one": "مستند واحد",
+  "session.documents_two": "مستندان",
+  "session.documents_few": "{count} مستندات",
+  "session.documents_other": "{count} مستند",
+  "session.messages_zero": "لا رسائل",
+  "session.messages_one": "رسالة واحدة",
+  "session.messages_two": "رسالتان",
+  "session.messages_few": "{count} رسائل",
+  "session.messages_other": "{count} رسالة",
+  "session.ready": "الحالة: جاهزة",
+  "session.processing": "الحالة: قيد المعالجة...",
+
+  "chat.heading": "المحادثة",
+  "chat.imported": "نص محادثة مستورد",
+  "chat.using": "باستخدام:",
+  "chat.documentCount_one": "مستند واحد",
+  "chat.documentCount_two": "مستندان",
+  "chat.documentCount_few": "{count} مستندات",
+  "chat.documentCount_other": "{count} مستند",
+  "chat.selectDocuments": "حدد المستندات",
+  "chat.shortcutsTitle": "اختصارات لوحة المفاتيح (?)",
+  "chat.searchTitle": "البحث في المحادثات (Ctrl+K)",
+  "chat.insights": "الإحصاءات",
+  "chat.insightsTitle": "تقييمات الإجابات وأزمنة الاستجابة",
+  "chat.settingsTitle": "النموذج والاسترجاع وأسلوب الإجابة",
+  "chat.preview": "معاينة",
+  "chat.hidePreview": "إخفاء المعاينة",
+  "chat.messages": "الرسائل",
+  "chat.you": "أنت",
+  "chat.assistant": "DocuChat",
+  "chat.thinking": "جارٍ التفكير...",
+  "chat.editQuestion": "تعديل السؤال",
+  "chat.stopped": "توقفت الإجابة",
+  "chat.waiting": "في انتظار الاتصال",
+  "chat.editAndResend": "تعديل وإعادة الإرسال",
+  "chat.regenerate": "إعادة توليد الإجابة",
+  "chat.noResponse": "لم تصل أي إجابة",
+  "chat.answerFailed": "حدث خطأ أثناء معالجة سؤالك. يُرجى المحاولة مرة أخرى.",
+  "chat.answerStopped": "توقفت الإجابة.",
+  "chat.answerAnnouncement": "الإجابة: {answer}",
+  "chat.answerCopied": "نُسخت الإجابة الأخيرة",
+
+  "export.button": "تصدير",
+  "export.format": "صيغة التصدير",
+  "export.markdown": "Markdown (.md)",
+  "export.json": "نص محادثة JSON",
+  "export.pdf": "مستند PDF",
+
+  "welcome.title": "مرحبًا بك في DocuChat AI",
+  "welcome.body": "ارفع ملفات PDF أو Word أو EPUB أو مستندات نصية واطرح أسئلة حول محتواها باستخدام الذكاء الاصطناعي.",
+  "welcome.uploadTitle": "ارفع المستندات",
+  "welcome.uploadText": "أضف الملفات إلى الشريط الجانبي",
+  "welcome.selectTitle": "حدد المستندات",
+  "welcome.selectText": "اختر مستندًا أو أكثر للاستعلام",
+  "welcome.askTitle": "اطرح أسئلتك",
+  "welcome.askText": "احصل على إجابات مع مصادرها",
+
+  "sources.show": "إظهار المصادر ({total})",
+  "sources.hide": "إخفاء المصادر ({total})",
+  "source.page": "ص. {page}",
+  "source.cite": "المصدر {index}: {name}، الصفحة {page}",
+  "source.citeNoPage": "المصدر {index}: {name}",
+
+  "versions.label": "الإصدارات",
+  "versions.previous": "الإصدار السابق",
+  "versions.next": "الإصدار التالي",
+  "versions.position": "الإصدار {index} من {total}",
+
+  "feedback.helpful": "مفيدة",
+  "feedback.notHelpful": "غير مفيدة",
+  "feedback.removeRating": "إزالة التقييم",
+  "feedback.comment": "تعليق على الإجابة",
+  "feedback.whatWasWrong": "ما المشكلة؟ (اختياري)",
+  "feedback.addComment": "أضف تعليقًا (اختياري)",
+
+  "offline.offline": "أنت غير متصل.",
+  "offline.unreachable": "تعذّر الوصول إلى الخادم.",
+  "offline.queued": "ستُرسل الأسئلة التي تطرحها الآن فور عودته.",
+
+  "input.question": "السؤال",
+  "input.readOnly": "نصوص المحادثات المستوردة للقراءة فقط. حدد مستندات لبدء محادثة جديدة.",
+  "input.askSeveral": "اسأل في المستندات المحددة...",
+  "input.askOne": "اسأل عن المستند...",
+  "input.selectFirst": "حدد مستندًا أولًا...",
+  "input.stop": "إيقاف التوليد",
+  "input.send": "إرسال السؤال",
+  "input.disclaimer": "قد يخطئ DocuChat AI. تحقق من المعلومات المهمة.",
+
+  "errors.unknown": "حدث خطأ غير معروف",
+  "errors.documentsUnavailable": "لم تعد مستندات هذه المحادثة متاحة.",
+  "errors.queuedUnavailable": "تعذّر إرسال «{question}»: لم تعد مستنداته متاحة.",
+  "errors.uploadFailed": "فشل رفع {name}: {error}",
+  "errors.pdfUnreadable": "تعذّرت قراءة ملف PDF هذا: {error}",
+  "errors.removeFailed": "فشلت إزالة المستند: {error}",
+  "errors.exportFailed": "فشل التصدير: {error}",
+  "errors.importFailed": "فشل استيراد {name}: {error}",
+  "errors.fileUnavailable": "الملف الأصلي لـ {name} غير متاح للعرض.",
+  "errors.copyFailed": "تعذّر النسخ إلى الحافظة.",
+  "errors.transcript.notJson": "نص محادثة غير صالح: ليس ملف JSON",
+  "errors.transcript.notExport": "نص محادثة غير صالح: ليس ملفًا مُصدَّرًا من DocuChat",
+  "errors.transcript.newerVersion": "صُدِّر نص المحادثة هذا من إصدار أحدث من DocuChat",
+  "errors.transcript.noMessages": "نص محادثة غير صالح: الرسائل مفقودة",
+  "errors.transcript.badMessage": "نص محادثة غير صالح: رسالة مشوّهة",
+  "errors.transcript.badSource": "نص محادثة غير صالح: مصدر مشوّه",
+  "errors.transcript.badDate": "نص محادثة غير صالح: تاريخ مفقود أو مشوّه",
+  "errors.epubUnreadable": "لا يحتوي ملف EPUB هذا على مستند حزمة قابل للقراءة",
+
+  "transcript.importedTitle": "محادثة مستوردة",
+  "transcript.documents": "المستندات: {names}",
+  "transcript.noDocuments": "لا شيء",
+  "transcript.started": "بدأت: {date}",
+  "transcript.exported": "صُدِّرت: {date}",
+  "transcript.sources": "المصادر",
+
+  "viewer.label": "عارض المستندات",
+  "viewer.close": "إغلاق العارض",
+  "viewer.loading": "جارٍ تحميل المستند...",
+  "viewer.openDocumentFailed": "تعذّر فتح هذا المستند",
+  "viewer.openPdfFailed": "تعذّر فتح ملف PDF هذا",
+  "viewer.passageNotExact": "لم يُعثر على المقطع بالضبط؛ تُعرض الصفحة {page}.",
+  "viewer.passageNotFound": "تعذّر العثور على هذا المقطع في المستند.",
+  "viewer.thumbnails": "إظهار الصور المصغّرة أو إخفاؤها",
+  "viewer.pageNumber": "الصفحة {page}",
+  "viewer.previousPage": "الصفحة السابقة",
+  "viewer.nextPage": "الصفحة التالية",
+  "viewer.pageInput": "رقم الصفحة",
+  "viewer.zoomOut": "تصغير",
+  "viewer.zoomIn": "تكبير",
+
+  "markdown.copyCode": "نسخ الشيفرة",
+
+  "units.milliseconds": "{value} ملي ثانية",
+  "units.seconds": "{value} ثانية",
+
+  "search.title": "البحث في المحادثات",
+  "search.input": "البحث في المحادثات والمصادر",
+  "search.placeholder": "ابحث في المحادثات والمصادر...",
+  "search.results": "النتائج",
+  "search.empty": "لا نتائج لـ «{query}»",
+
+  "commandPalette.title": "لوحة الأوامر",
+  "commandPalette.input": "الأمر",
+  "commandPalette.placeholder": "اكتب أمرًا...",
+  "commandPalette.list": "الأوامر",
+  "commandPalette.empty": "لا أوامر مطابقة",
+
+  "command.command-palette": "فتح لوحة الأوامر",
+  "command.search": "البحث في المحادثات",
+  "command.shortcut-help": "عرض اختصارات لوحة المفاتيح",
+  "command.upload": "رفع مستندات",
+  "command.next-document": "تحديد المستند التالي",
+  "command.previous-document": "تحديد المستند السابق",
+  "command.new-conversation": "محادثة جديدة",
+  "command.toggle-sidebar": "إظهار الشريط الجانبي أو إخفاؤه",
+  "command.toggle-sources": "إظهار مصادر الإجابة الأخيرة أو إخفاؤها",
+  "command.copy-answer": "نسخ الإجابة الأخيرة",
+  "command.focus-input": "الانتقال إلى مربع السؤال",
+
+  "shortcuts.title": "اختصارات لوحة المفاتيح",
+  "shortcuts.hint": "انقر على اختصار لتغييره",
+  "shortcuts.reset": "إعادة تعيين",
+  "shortcuts.resetTitle": "استعادة الاختصارات الافتراضية",
+  "shortcuts.change": "تغيير الاختصار",
+  "shortcuts.add": "إضافة اختصار",
+  "shortcuts.none": "لا يوجد",
+  "shortcuts.recording": "اضغط المفاتيح… (Backspace للمسح)",
+  "shortcuts.recordingHint": "اضغط المفاتيح الجديدة، أو Backspace للمسح",
+  "shortcuts.bindingLabel": "{command}: {binding}. تغيير الاختصار",
+  "shortcuts.unbound": "لم يعد لـ «{command}» اختصار.",
+  "shortcuts.fixed.title": "في مربع السؤال",
+  "shortcuts.fixed.send": "إرسال السؤال",
+  "shortcuts.fixed.newLine": "سطر جديد",
+  "shortcuts.fixed.recall": "استرجاع الأسئلة السابقة (في مربع سؤال فارغ)",
+  "shortcuts.fixed.escape": "إغلاق مربعات الحوار، إلغاء التعديل",
+
+  "analytics.title": "تقييمات الإجابات",
+  "analytics.stored": "محفوظة في هذا المتصفح",
+  "analytics.storedAndSent": "محفوظة في هذا المتصفح ومرسلة إلى الخادم",
+  "analytics.exportCsv": "تصدير التقييمات بصيغة CSV",
+  "analytics.averageResponse": "متوسط الاستجابة",
+  "analytics.overAnswers_zero": "لا إجابات",
+  "analytics.overAnswers_one": "لإجابة واحدة",
+  "analytics.overAnswers_two": "لإجابتين",
+  "analytics.overAnswers_few": "لـ {count} إجابات",
+  "analytics.overAnswers_other": "لـ {count} إجابة",
+  "analytics.byDocument": "حسب المستند",
+  "analytics.document": "المستند",
+  "analytics.noAnswers": "لا إجابات بعد.",
+  "analytics.ratedDown": "قُيّمت بأنها غير مفيدة",
+  "analytics.quoted": "«{text}»",
+  "analytics.noNegative": "لا تقييمات سلبية.",
+  "answerSettings.title": "إعدادات الإجابة",
+  "answerSettings.hint": "تُحفظ مع كل مستند وتُرسل مع كل سؤال",
+  "answerSettings.document": "المستند",
+  "answerSettings.model": "النموذج",
+  "answerSettings.defaultModel": "النموذج الافتراضي للخادم",
+  "answerSettings.temperature": "درجة الحرارة",
+  "answerSettings.temperatureHint": "القيمة الأقل تلتزم بالنص أكثر، والأعلى تعطي تنوعًا أكبر.",
+  "answerSettings.temperatureValue": "درجة الحرارة {value}",
+  "answerSettings.topK": "المقاطع المسترجعة",
+  "answerSettings.topKHint": "عدد مقاطع المستند التي تعتمد عليها كل إجابة.",
+  "answerSettings.chunks_one": "مقطع واحد",
+  "answerSettings.chunks_two": "مقطعان",
+  "answerSettings.chunks_few": "{count} مقاطع",
+  "answerSettings.chunks_other": "{count} مقطع",
+  "answerSettings.styleLabel": "طول الإجابة",
+  "answerSettings.style.concise": "موجزة",
+  "answerSettings.style.balanced": "متوازنة",
+  "answerSettings.style.detailed": "مفصّلة",
+  "answerSettings.systemPrompt": "تعليمات مخصصة",
+  "answerSettings.systemPromptPlaceholder": "مثال: أجب كمراجع قانوني واذكر أرقام البنود.",
+  "answerSettings.customPrompt": "تعليمات مخصصة",
+  "answerSettings.applyToAll": "استخدامها لكل المستندات المحددة",
+  "answerSettings.reset": "استعادة الإعدادات الافتراضية",
+  "answerSettings.usedLabel": "أُجيب باستخدام: {settings}",
+  "overview.summarizing": "جارٍ كتابة الملخص...",
+  "overview.suggestions": "أسئلة مقترحة",
+  "overview.contents_one": "المحتويات (عنصر واحد)",
+  "overview.contents_two": "المحتويات (عنصران)",
+  "overview.contents_few": "المحتويات ({count} عناصر)",
+  "overview.contents_other": "المحتويات ({count} عنصر)",
+  "overview.openPage": "الانتقال إلى الصفحة {page}",
+  "overview.sectionQuestion": "ماذا يتناول قسم «{title}»؟",
+  "compare.button": "مقارنة",
+  "compare.buttonTitle": "اطرح الأسئلة نفسها على مستندين واعرف ما الذي تغيّر بينهما",
+  "compare.title": "مقارنة المستندات",
+  "compare.close": "إنهاء المقارنة",
+  "compare.original": "المستند الأصلي",
+  "compare.revised": "المستند المعدَّل",
+  "compare.swap": "تبديل المستندين",
+  "compare.answersTab": "الإجابات",
+  "compare.changesTab": "تغييرات النص",
+  "compare.empty": "اطرح سؤالًا لترى كيف يجيب عنه كل مستند، مثل «ما الذي تغيّر في شروط الدفع؟»",
+  "compare.placeholder": "اسأل المستندين...",
+  "compare.question": "سؤال للمستندين",
+  "compare.sources": "المصادر",
+  "compare.changesLoading": "جارٍ مقارنة النص...",
+  "compare.changesUnavailable": "تتطلب تغييرات النص ملف PDF الأصلي لكلا المستندين.",
+  "compare.changesFailed": "تعذّرت مقارنة النص: {error}",
+  "compare.noChanges": "نص المستندين متطابق.",
+  "compare.linesAdded_one": "أُضيف سطر واحد",
+  "compare.linesAdded_two": "أُضيف سطران",
+  "compare.linesAdded_few": "أُضيفت {count} أسطر",
+  "compare.linesAdded_other": "أُضيف {count} سطر",
+  "compare.linesRemoved_one": "حُذف سطر واحد",
+  "compare.linesRemoved_two": "حُذف سطران",
+  "compare.linesRemoved_few": "حُذفت {count} أسطر",
+  "compare.linesRemoved_other": "حُذف {count} سطر",
+  "compare.hunkPages": "الصفحة {left} ← الصفحة {right}",
+  "compare.truncated": "عرض أول {shown} من أصل {total} تغيير."
+};
+
+export default ar;
@@ -0,0 +1,342 @@
+// English: the source catalogue every other locale translates. Plural
+// messages come in "_one" / "_other" pairs and take a numeric `count`.
+const en = {
+  "app.name": "DocuChat AI",
+  "app.tagline": "Upload documents and start chatting",
+  "app.sidebar": "Documents and conversations",
+  "app.openMenu": "Open menu",
+  "app.closeMenu": "Close menu",
+  "app.collapseSidebar": "Collapse sidebar",
+  "app.expandSidebar": "Expand sidebar",
+
+  "common.close": "Close",
+  "common.cancel": "Cancel",
+  "common.send": "Send",
+  "common.save": "Save",
+  "common.skip": "Skip",
+
+  "status.connected": "Connected",
+  "status.offline": "Offline",
+  "status.reconnecting": "Reconnecting...",
+  "status.connecting": "Connecting",
+  "status.retry": "Retry now",
+
+  "auth.title": "Sign in to continue",
+  "auth.hint": "Documents and conversations are kept separately for each account.",
+  "auth.signIn": "Sign in",
+  "auth.redirecting": "Opening sign-in...",
+  "auth.completing": "Signing you in...",
+  "auth.failed": "Sign-in failed",
+  "auth.retry": "Try again",
+  "auth.signedInAs": "Signed in as {name}",
+  "auth.signOut": "Sign out",
+  "auth.mockTitle": "Mock identity provider",
+  "auth.mockHint": "For development only: any name signs in, and each name gets its own workspace.",
+  "auth.username": "Username",
+  "auth.continue": "Continue",
+
+  "language.interface": "Interface language",
+  "language.answers": "Answer language",
+  "language.matchQuestion": "Match the question",
+
+  "upload.add": "Add documents",
+  "upload.addButton": "Add Documents",
+  "upload.hint": "Drop files here or press Enter to browse.",
+  "upload.dismiss": "Dismiss",
+  "upload.dismissAbout": "Dismiss the message about {name}",
+  "upload.unsupportedType": "{name} is not a supported file type. Supported: {formats}.",
+  "upload.invalidContent": "{name} doesn't look like a valid {type} file.",
+
+  "documentType.text": "Text",
+
+  "policy.maxSize": "Max {size}",
+  "policy.maxPages_one": "{count} page max",
+  "policy.maxPages_other": "{count} pages max",
+  "policy.maxDocuments_one": "Up to {count} document",
+  "policy.maxDocuments_other": "Up to {count} documents",
+  "policy.typeNotAllowed": "{type} files are not allowed here.",
+  "policy.unsupportedType": "Unsupported file type.",
+  "policy.tooLarge": "{size} is over the {limit} limit.",
+  "policy.tooMany_one": "The workspace already holds the maximum of {count} document.",
+  "policy.tooMany_other": "The workspace already holds the maximum of {count} documents.",
+  "policy.duplicate": "Same content as {name}, which is already uploaded.",
+  "policy.tooManyPages_one": "{count} page is over the {limit}-page limit.",
+  "policy.tooManyPages_other": "{count} pages is over the {limit}-page limit.",
+
+  "inspection.noText": "No extractable text found. This looks like a scanned or image-only PDF, so answers will be empty unless it is OCR'd first.",
+  "inspection.someText": "Only {textPages} of {sampledPages} checked pages have text. Image-only pages won't be searchable.",
+
+  "documents.heading": "Documents ({total})",
+  "documents.selectAll": "Select all",
+  "documents.clearSelection": "Clear selection",
+  "documents.empty": "No documents",
+  "documents.select": "Select {name}",
+  "documents.encrypted": "Encrypted",
+  "documents.pages_one": "{count} page",
+  "documents.pages_other": "{count} pages",
+  "documents.retry": "Retry upload",
+  "documents.retryName": "Retry uploading {name}",
+  "documents.cancel": "Cancel upload",
+  "documents.cancelName": "Cancel uploading {name}",
+  "documents.remove": "Remove document",
+  "documents.removeName": "Remove {name}",
+  "documents.phase.inspecting": "Checking document...",
+  "documents.phase.queued": "Waiting...",
+  "documents.phase.session": "Creating session...",
+  "documents.phase.uploading": "Uploading...",
+  "documents.phase.processing": "Processing on server...",
+  "documents.wrongPassword": "Incorrect password, try again.",
+  "documents.passwordProtected": "This PDF is password-protected.",
+  "documents.password": "Password",
+  "documents.passwordFor": "Password for {name}",
+  "documents.unlock": "Unlock",
+  "documents.uploadAnyway": "Upload anyway",
+  "documents.readyBadge": "Ready",
+  "documents.ready": "{name} is ready.",
+  "documents.sessionExpired": "Session expired on the server. Retry to upload it again.",
+
+  "conversations.heading": "Conversations ({total})",
+  "conversations.import": "Import",
+  "conversations.importTitle": "Import a JSON transcript",
+  "conversations.new": "New chat",
+  "conversations.empty": "Your conversations will appear here.",
+  "conversations.readOnly": "Read-only",
+  "conversations.delete": "Delete conversation",
+  "conversations.deleteName": "Delete conversation \"{title}\"",
+
+  "session.summary": "Session: {documents}, {messages}",
+  "session.documents_one": "{count} document",
+  "session.documents_other": "{count} documents",
+  "session.messages_one": "{count} message",
+  "session.messages_other": "{count} messages",
+  "session.ready": "Status: Ready",
+  "session.processing": "Status: Processing...",
+
+  "chat.heading": "Chat",
+  "chat.imported": "Imported transcript",
+  "chat.using": "Using:",
+  "chat.documentCount_one": "{count} document",
+  "chat.documentCount_other": "{count} documents",
+  "chat.selectDocuments": "Select documents",
+  "chat.shortcutsTitle": "Keyboard shortcuts (?)",
+  "chat.searchTitle": "Search conversations (Ctrl+K)",
+  "chat.insights": "Insights",
+  "chat.insightsTitle": "Answer feedback and response times",
+  "chat.settingsTitle": "Model, retrieval and answer style",
+  "chat.preview": "Preview",
+  "chat.hidePreview": "Hide preview",
+  "chat.messages": "Messages",
+  "chat.you": "You",
+  "chat.assistant": "DocuChat",
+  "chat.thinking": "Thinking...",
+  "chat.editQuestion": "Edit question",
+  "chat.stopped": "Response stopped",
+  "chat.waiting": "Waiting for connection",
+  "chat.editAndResend": "Edit and resend",
+  "chat.regenerate": "Regenerate answer",
+  "chat.noResponse": "No response received",
+  "chat.answerFailed": "I encountered an error while processing your question. Please try again.",
+  "chat.answerStopped": "Answer stopped.",
+  "chat.answerAnnouncement": "Answer: {answer}",
+  "chat.answerCopied": "Last answer copied",
+
+  "export.button": "Export",
+  "export.format": "Export format",
+  "export.markdown": "Markdown (.md)",
+  "export.json": "JSON transcript",
+  "export.pdf": "PDF document",
+
+  "welcome.title": "Welcome to DocuChat AI",
+  "welcome.body": "Upload PDFs, Word files, EPUBs or text documents and ask questions about their content using advanced AI.",
+  "welcome.uploadTitle": "Upload Documents",
+  "welcome.uploadText": "Add files to the sidebar",
+  "welcome.selectTitle": "Select Documents",
+  "welcome.selectText": "Choose one or more to query",
+  "welcome.askTitle": "Ask Questions",
+  "welcome.askText": "Get answers with sources",
+
+  "sources.show": "Show Sources ({total})",
+  "sources.hide": "Hide Sources ({total})",
+  "source.page": "p. {page}",
+  "source.cite": "Source {index}: {name}, page {page}",
+  "source.citeNoPage": "Source {index}: {name}",
+
+  "versions.label": "Versions",
+  "versions.previous": "Previous version",
+  "versions.next": "Next version",
+  "versions.position": "Version {index} of {total}",
+
+  "feedback.helpful": "Helpful",
+  "feedback.notHelpful": "Not helpful",
+  "feedback.removeRating": "Remove rating",
+  "feedback.comment": "Feedback comment",
+  "feedback.whatWasWrong": "What was wrong? (optional)",
+  "feedback.addComment": "Add a comment (optional)",
+
+  "offline.offline": "You are offline.",
+  "offline.unreachable": "The server is unreachable.",
+  "offline.queued": "Questions you send now will go out once it's back.",
+
+  "input.question": "Question",
+  "input.readOnly": "Imported transcripts are read-only. Select documents to start a new chat.",
+  "input.askSeveral": "Ask across the selected documents...",
+  "input.askOne": "Ask about the document...",
+  "input.selectFirst": "Select a document first...",
+  "input.stop": "Stop generating",
+  "input.send": "Send question",
+  "input.disclaimer": "DocuChat AI can make mistakes. Verify important information.",
+
+  "errors.unknown": "Unknown error occurred",
+  "errors.documentsUnavailable": "This conversation's documents are no longer available.",
+  "errors.queuedUnavailable": "Couldn't send \"{question}\": its documents are no longer available.",
+  "errors.uploadFailed": "Failed to upload {name}: {error}",
+  "errors.pdfUnreadable": "Could not read this PDF: {error}",
+  "errors.removeFailed": "Failed to remove document: {error}",
+  "errors.exportFailed": "Export failed: {error}",
+  "errors.importFailed": "Failed to import {name}: {error}",
+  "errors.fileUnavailable": "The original file for {name} is not available to display.",
+  "errors.copyFailed": "Couldn't copy to the clipboard.",
+  "errors.transcript.notJson": "Invalid transcript: not a JSON file",
+  "errors.transcript.notExport": "Invalid transcript: not a DocuChat export",
+  "errors.transcript.newerVersion": "This transcript was exported by a newer version of DocuChat",
+  "errors.transcript.noMessages": "Invalid transcript: missing messages",
+  "errors.transcript.badMessage": "Invalid transcript: malformed message",
+  "errors.transcript.badSource": "Invalid transcript: malformed source",
+  "errors.transcript.badDate": "Invalid transcript: a date is missing or malformed",
+  "errors.epubUnreadable": "This EPUB has no readable package document",
+
+  "transcript.importedTitle": "Imported conversation",
+  "transcript.documents": "Documents: {names}",
+  "transcript.noDocuments": "none",
+  "transcript.started": "Started: {date}",
+  "transcript.exported": "Exported: {date}",
+  "transcript.sources": "Sources",
+
+  "viewer.label": "Document viewer",
+  "viewer.close": "Close viewer",
+  "viewer.loading": "Loading document...",
+  "viewer.openDocumentFailed": "Could not open this document",
+  "viewer.openPdfFailed": "Could not open this PDF",
+  "viewer.passageNotExact": "Exact passage not found; showing page {page}.",
+  "viewer.passageNotFound": "This passage could not be located in the document.",
+  "viewer.thumbnails": "Toggle thumbnails",
+  "viewer.pageNumber": "Page {page}",
+  "viewer.previousPage": "Previous page",
+  "viewer.nextPage": "Next page",
+  "viewer.pageInput": "Page number",
+  "viewer.zoomOut": "Zoom out",
+  "viewer.zoomIn": "Zoom in",
+
+  "markdown.copyCode": "Copy code",
+
+  "units.milliseconds": "{value} ms",
+  "units.seconds": "{value} s",
+
+  "search.title": "Search conversations",
+  "search.input": "Search conversations and sources",
+  "search.placeholder": "Search conversations and sources...",
+  "search.results": "Results",
+  "search.empty": "No matches for \"{query}\"",
+
+  "commandPalette.title": "Command palette",
+  "commandPalette.input": "Command",
+  "commandPalette.placeholder": "Type a command...",
+  "commandPalette.list": "Commands",
+  "commandPalette.empty": "No matching commands",
+
+  "command.command-palette": "Open command palette",
+  "command.search": "Search conversations",
+  "command.shortcut-help": "Show keyboard shortcuts",
+  "command.upload": "Upload documents",
+  "command.next-document": "Select next document",
+  "command.previous-document": "Select previous document",
+  "command.new-conversation": "New conversation",
+  "command.toggle-sidebar": "Toggle sidebar",
+  "command.toggle-sources": "Show or hide sources of the last answer",
+  "command.copy-answer": "Copy the last answer",
+  "command.focus-input": "Focus the question box",
+
+  "shortcuts.title": "Keyboard shortcuts",
+  "shortcuts.hint": "Click a shortcut to change it",
+  "shortcuts.reset": "Reset",
+  "shortcuts.resetTitle": "Restore the default shortcuts",
+  "shortcuts.change": "Change shortcut",
+  "shortcuts.add": "Add a shortcut",
+  "shortcuts.none": "None",
+  "shortcuts.recording": "Press keys… (Backspace to clear)",
+  "shortcuts.recordingHint": "press the new keys, or Backspace to clear",
+  "shortcuts.bindingLabel": "{command}: {binding}. Change shortcut",
+  "shortcuts.unbound": "\"{command}\" no longer has a shortcut.",
+  "shortcuts.fixed.title": "In the question box",
+  "shortcuts.fixed.send": "Send the question",
+  "shortcuts.fixed.newLine": "New line",
+  "shortcuts.fixed.recall": "Recall earlier questions (in an empty question box)",
+  "shortcuts.fixed.escape": "Close dialogs, cancel editing",
+
+  "analytics.title": "Answer feedback",
+  "analytics.stored": "Stored in this browser",
+  "analytics.storedAndSent": "Stored in this browser and sent to the server",
+  "analytics.exportCsv": "Export feedback as CSV",
+  "analytics.averageResponse": "Avg. response",
+  "analytics.overAnswers_one": "over {count} answer",
+  "analytics.overAnswers_other": "over {count} answers",
+  "analytics.byDocument": "By document",
+  "analytics.document": "Document",
+  "analytics.noAnswers": "No answers yet.",
+  "analytics.ratedDown": "Rated not helpful",
+  "analytics.quoted": "“{text}”",
+  "analytics.noNegative": "No negative ratings.",
+  "answerSettings.title": "Answer settings",
+  "answerSettings.hint": "Saved with each document and sent with every question",
+  "answerSettings.document": "Document",
+  "answerSettings.model": "Model",
+  "answerSettings.defaultModel": "Server default",
+  "answerSettings.temperature": "Temperature",
+  "answerSettings.temperatureHint": "Lower stays closer to the text, higher is more varied.",
+  "answerSettings.temperatureValue": "temperature {value}",
+  "answerSettings.topK": "Passages retrieved",
+  "answerSettings.topKHint": "How many passages of the document each answer draws on.",
+  "answerSettings.chunks_one": "{count} passage",
+  "answerSettings.chunks_other": "{count} passages",
+  "answerSettings.styleLabel": "Answer length",
+  "answerSettings.style.concise": "Concise",
+  "answerSettings.style.balanced": "Balanced",
+  "answerSettings.style.detailed": "Detailed",
+  "answerSettings.systemPrompt": "Custom instructions",
+  "answerSettings.systemPromptPlaceholder": "e.g. Answer as a legal reviewer and quote clause numbers.",
+  "answerSettings.customPrompt": "custom instructions",
+  "answerSettings.applyToAll": "Use for all selected",
+  "answerSettings.reset": "Reset to defaults",
+  "answerSettings.usedLabel": "Answered with: {settings}",
+  "overview.summarizing": "Writing a summary...",
+  "overview.suggestions": "Suggested questions",
+  "overview.contents_one": "Contents ({count} entry)",
+  "overview.contents_other": "Contents ({count} entries)",
+  "overview.openPage": "Go to page {page}",
+  "overview.sectionQuestion": "What does the section “{title}” cover?",
+  "compare.button": "Compare",
+  "compare.buttonTitle": "Ask two documents the same questions and see what changed between them",
+  "compare.title": "Compare documents",
+  "compare.close": "Leave comparison",
+  "compare.original": "Original document",
+  "compare.revised": "Revised document",
+  "compare.swap": "Swap documents",
+  "compare.answersTab": "Answers",
+  "compare.changesTab": "Text changes",
+  "compare.empty": "Ask a question to see how each document answers it, e.g. \"What changed in the payment terms?\"",
+  "compare.placeholder": "Ask both documents...",
+  "compare.question": "Question for both documents",
+  "compare.sources": "Sources",
+  "compare.changesLoading": "Comparing the text...",
+  "compare.changesUnavailable": "Text changes need the original PDF file of both documents.",
+  "compare.changesFailed": "Couldn't compare the text: {error}",
+  "compare.noChanges": "The text of both documents is the same.",
+  "compare.linesAdded_one": "{count} line added",
+  "compare.linesAdded_other": "{count} lines added",
+  "compare.linesRemoved_one": "{count} line removed",
+  "compare.linesRemoved_other": "{count} lines removed",
+  "compare.hunkPages": "Page {left} → page {right}",
+  "compare.truncated": "Showing the first {shown} of {total} changes."
+};
+
+export default en;
@@ -0,0 +1,342 @@
+import type { Messages } from "@/lib/i18n";
+
+const fr: Messages = {
+  "app.name": "DocuChat AI",
+  "app.tagline": "Importez des documents et commencez à discuter",
+  "app.sidebar": "Documents et conversations",
+  "app.openMenu": "Ouvrir le menu",
+  "app.closeMenu": "Fermer le menu",
+  "app.collapseSidebar": "Replier le panneau latéral",
+  "app.expandSidebar": "Déplier le panneau latéral",
+
+  "common.close": "Fermer",
+  "common.cancel": "Annuler",
+  "common.send": "Envoyer",
+  "common.save": "Enregistrer",
+  "common.skip": "Passer",
+
+  "status.connected": "Connecté",
+  "status.offline": "Hors ligne",
+  "status.reconnecting": "Reconnexion...",
+  "status.connecting": "Connexion",
+  "status.retry": "Réessayer",
+
+  "auth.title": "Connectez-vous pour continuer",
+  "auth.hint": "Les documents et les conversations sont conservés séparément pour chaque compte.",
+  "auth.signIn": "Se connecter",
+  "auth.redirecting": "Ouverture de la connexion...",
+  "auth.completing": "Connexion en cours...",
+  "auth.failed": "La connexion a échoué",
+  "auth.retry": "Réessayer",
+  "auth.signedInAs": "Connecté en tant que {name}",
+  "auth.signOut": "Se déconnecter",
+  "auth.mockTitle": "Fournisseur d'identité fictif",
+  "auth.mockHint": "Pour le développement uniquement : n'importe quel nom permet de se connecter, et chaque nom a son propre espace de travail.",
+  "auth.username": "Nom d'utilisateur",
+  "auth.continue": "Continuer",
+
+  "language.interface": "Langue de l'interface",
+  "language.answers": "Langue des réponses",
+  "language.matchQuestion": "Celle de la question",
+
+  "upload.add": "Ajouter des documents",
+  "upload.addButton": "Ajouter des documents",
+  "upload.hint": "Déposez des fichiers ici ou appuyez sur Entrée pour parcourir.",
+  "upload.dismiss": "Ignorer",
+  "upload.dismissAbout": "Ignorer le message concernant {name}",
+  "upload.unsupportedType": "{name} n'est pas un type de fichier pris en charge. Formats acceptés : {formats}.",
+  "upload.invalidContent": "{name} ne semble pas être un fichier {type} valide.",
+
+  "documentType.text": "Texte",
+
+  "policy.maxSize": "{size} max.",
+  "policy.maxPages_one": "{count} page max.",
+  "policy.maxPages_other": "{count} pages max.",
+  "policy.maxDocuments_one": "Jusqu'à {count} document",
+  "policy.maxDocuments_other": "Jusqu'à {count} documents",
+  "policy.typeNotAllowed": "Les fichiers {type} ne sont pas autorisés ici.",
+  "policy.unsupportedType": "Type de fichier non pris en charge.",
+  "policy.tooLarge": "{size} dépasse la limite de {limit}.",
+  "policy.tooMany_one": "L'espace de travail contient déjà le maximum de {count} document.",
+  "policy.tooMany_other": "L'espace de travail contient déjà le maximum de {count} documents.",
+  "policy.duplicate": "Même contenu que {name}, déjà importé.",
+  "policy.tooManyPages_one": "{count} page dépasse la limite de {limit} pages.",
+  "policy.tooManyPages_other": "{count} pages dépassent la limite de {limit} pages.",
+
+  "inspection.noText": "Aucun texte extractible. Ce PDF semble numérisé ou composé d'images : les réponses seront vides sans passage préalable à l'OCR.",
+  "inspection.someText": "Seules {textPages} des {sampledPages} pages vérifiées contiennent du texte. Les pages composées d'images ne seront pas consultables.",
+
+  "documents.heading": "Documents ({total})",
+  "documents.selectAll": "Tout sélectionner",
+  "documents.clearSelection": "Tout désélectionner",
+  "documents.empty": "Aucun document",
+  "documents.select": "Sélectionner {name}",
+  "documents.encrypted": "Chiffré",
+  "documents.pages_one": "{count} page",
+  "documents.pages_other": "{count} pages",
+  "documents.retry": "Relancer l'import",
+  "documents.retryName": "Relancer l'import de {name}",
+  "documents.cancel": "Annuler l'import",
+  "documents.cancelName": "Annuler l'import de {name}",
+  "documents.remove": "Supprimer le document",
+  "documents.removeName": "Supprimer {name}",
+  "documents.phase.inspecting": "Vérification du document...",
+  "documents.phase.queued": "En attente...",
+  "documents.phase.session": "Création de la session...",
+  "documents.phase.uploading": "Envoi...",
+  "documents.phase.processing": "Traitement sur le serveur...",
+  "documents.wrongPassword": "Mot de passe incorrect, réessayez.",
+  "documents.passwordProtected": "Ce PDF est protégé par un mot de passe.",
+  "documents.password": "Mot de passe",
+  "documents.passwordFor": "Mot de passe de {name}",
+  "documents.unlock": "Déverrouiller",
+  "documents.uploadAnyway": "Importer quand même",
+  "documents.readyBadge": "Prêt",
+  "documents.ready": "{name} est prêt.",
+  "documents.sessionExpired": "La session a expiré sur le serveur. Relancez l'import pour l'envoyer à nouveau.",
+
+  "conversations.heading": "Conversations ({total})",
+  "conversations.import": "Importer",
+  "conversations.importTitle": "Importer une transcription JSON",
+  "conversations.new": "Nouvelle discussion",
+  "conversations.empty": "Vos conversations apparaîtront ici.",
+  "conversations.readOnly": "Lecture seule",
+  "conversations.delete": "Supprimer la conversation",
+  "conversations.deleteName": "Supprimer la conversation « {title} »",
+
+  "session.summary": "Session : {documents}, {messages}",
+  "session.documents_one": "{count} document",
+  "session.documents_other": "{count} documents",
+  "session.messages_one": "{count} message",
+  "session.messages_other": "{count} messages",
+  "session.ready": "État : prête",
+  "session.processing": "État : traitement...",
+
+  "chat.heading": "Discussion",
+  "chat.imported": "Transcription importée",
+  "chat.using": "Sources :",
+  "chat.documentCount_one": "{count} document",
+  "chat.documentCount_other": "{count} documents",
+  "chat.selectDocuments": "Sélectionnez des documents",
+  "chat.shortcutsTitle": "Raccourcis clavier (?)",
+  "chat.searchTitle": "Rechercher dans les conversations (Ctrl+K)",
+  "chat.insights": "Statistiques",
+  "chat.insightsTitle": "Avis sur les réponses et temps de réponse",
+  "chat.settingsTitle": "Modèle, recherche et style de réponse",
+  "chat.preview": "Aperçu",
+  "chat.hidePreview": "Masquer l'aperçu",
+  "chat.messages": "Messages",
+  "chat.you": "Vous",
+  "chat.assistant": "DocuChat",
+  "chat.thinking": "Réflexion...",
+  "chat.editQuestion": "Modifier la question",
+  "chat.stopped": "Réponse interrompue",
+  "chat.waiting": "En attente de connexion",
+  "chat.editAndResend": "Modifier et renvoyer",
+  "chat.regenerate": "Régénérer la réponse",
+  "chat.noResponse": "Aucune réponse reçue",
+  "chat.answerFailed": "Une erreur s'est produite lors du traitement de votre question. Veuillez réessayer.",
+  "chat.answerStopped": "Réponse interrompue.",
+  "chat.answerAnnouncement": "Réponse : {answer}",
+  "chat.answerCopied": "Dernière réponse copiée",
+
+  "export.button": "Exporter",
+  "export.format": "Format d'export",
+  "export.markdown": "Markdown (.md)",
+  "export.json": "Transcription JSON",
+  "export.pdf": "Document PDF",
+
+  "welcome.title": "Bienvenue dans DocuChat AI",
+  "welcome.body": "Importez des PDF, des fichiers Word, des EPUB ou des documents texte et posez des questions sur leur contenu grâce à l'IA.",
+  "welcome.uploadTitle": "Importez des documents",
+  "welcome.uploadText": "Ajoutez des fichiers dans le panneau latéral",
+  "welcome.selectTitle": "Sélectionnez des documents",
+  "welcome.selectText": "Choisissez-en un ou plusieurs à interroger",
+  "welcome.askTitle": "Posez vos questions",
+  "welcome.askText": "Obtenez des réponses sourcées",
+
+  "sources.show": "Afficher les sources ({total})",
+  "sources.hide": "Masquer les sources ({total})",
+  "source.page": "p. {page}",
+  "source.cite": "Source {index} : {name}, page {page}",
+  "source.citeNoPage": "Source {index} : {name}",
+
+  "versions.label": "Versions",
+  "versions.previous": "Version précédente",
+  "versions.next": "Version suivante",
+  "versions.position": "Version {index} sur {total}",
+
+  "feedback.helpful": "Utile",
+  "feedback.notHelpful": "Pas utile",
+  "feedback.removeRating": "Retirer l'avis",
+  "feedback.comment": "Commentaire",
+  "feedback.whatWasWrong": "Qu'est-ce qui n'allait pas ? (facultatif)",
+  "feedback.addComment": "Ajouter un commentaire (facultatif)",
+
+  "offline.offline": "Vous êtes hors ligne.",
+  "offline.unreachable": "Le serveur est injoignable.",
+  "offline.queued": "Les questions envoyées maintenant partiront dès son retour.",
+
+  "input.question": "Question",
+  "input.readOnly": "Les transcriptions importées sont en lecture seule. Sélectionnez des documents pour commencer une nouvelle discussion.",
+  "input.askSeveral": "Interrogez les documents sélectionnés...",
+  "input.askOne": "Posez une question sur le document...",
+  "input.selectFirst": "Sélectionnez d'abord un document...",
+  "input.stop": "Arrêter la génération",
+  "input.send": "Envoyer la question",
+  "input.disclaimer": "DocuChat AI peut se tromper. Vérifiez les informations importantes.",
+
+  "errors.unknown": "Une erreur inconnue s'est produite",
+  "errors.documentsUnavailable": "Les documents de cette conversation ne sont plus disponibles.",
+  "errors.queuedUnavailable": "Impossible d'envoyer « {question} » : ses documents ne sont plus disponibles.",
+  "errors.uploadFailed": "Échec de l'import de {name} : {error}",
+  "errors.pdfUnreadable": "Impossible de lire ce PDF : {error}",
+  "errors.removeFailed": "Échec de la suppression du document : {error}",
+  "errors.exportFailed": "Échec de l'export : {error}",
+  "errors.importFailed": "Échec de l'import de {name} : {error}",
+  "errors.fileUnavailable": "Le fichier d'origine de {name} n'est pas disponible pour l'affichage.",
+  "errors.copyFailed": "Impossible de copier dans le presse-papiers.",
+  "errors.transcript.notJson": "Transcription invalide : ce n'est pas un fichier JSON",
+  "errors.transcript.notExport": "Transcription invalide : ce n'est pas un export DocuChat",
+  "errors.transcript.newerVersion": "Cette transcription a été exportée par une version plus récente de DocuChat",
+  "errors.transcript.noMessages": "Transcription invalide : messages manquants",
+  "errors.transcript.badMessage": "Transcription invalide : message mal formé",
+  "errors.transcript.badSource": "Transcription invalide : source mal formée",
+  "errors.transcript.badDate": "Transcription invalide : une date est manquante ou mal formée",
+  "errors.epubUnreadable": "Cet EPUB n'a pas de document de package lisible",
+
+  "transcript.importedTitle": "Conversation importée",
+  "transcript.documents": "Documents : {names}",
+  "transcript.noDocuments": "aucun",
+  "transcript.started": "Commencée : {date}",
+  "transcript.exported": "Exportée : {date}",
+  "transcript.sources": "Sources",
+
+  "viewer.label": "Visionneuse de document",
+  "viewer.close": "Fermer la visionneuse",
+  "viewer.loading": "Chargement du document...",
+  "viewer.openDocumentFailed": "Impossible d'ouvrir ce document",
+  "viewer.openPdfFailed": "Impossible d'ouvrir ce PDF",
+  "viewer.passageNotExact": "Passage exact introuvable ; affichage de la page {page}.",
+  "viewer.passageNotFound": "Ce passage est introuvable dans le document.",
+  "viewer.thumbnails": "Afficher les miniatures",
+  "viewer.pageNumber": "Page {page}",
+  "viewer.previousPage": "Page précédente",
+  "viewer.nextPage": "Page suivante",
+  "viewer.pageInput": "Numéro de page",
+  "viewer.zoomOut": "Zoom arrière",
+  "viewer.zoomIn": "Zoom avant",
+
+  "markdown.copyCode": "Copier le code",
+
+  "units.milliseconds": "{value} ms",
+  "units.seconds": "{value} s",
+
+  "search.title": "Rechercher dans les conversations",
+  "search.input": "Rechercher dans les conversations et les sources",
+  "search.placeholder": "Rechercher dans les conversations et les sources...",
+  "search.results": "Résultats",
+  "search.empty": "Aucun résultat pour « {query} »",
+
+  "commandPalette.title": "Palette de commandes",
+  "commandPalette.input": "Commande",
+  "commandPalette.placeholder": "Saisissez une commande...",
+  "commandPalette.list": "Commandes",
+  "commandPalette.empty": "Aucune commande correspondante",
+
+  "command.command-palette": "Ouvrir la palette de commandes",
+  "command.search": "Rechercher dans les conversations",
+  "command.shortcut-help": "Afficher les raccourcis clavier",
+  "command.upload": "Importer des documents",
+  "command.next-document": "Sélectionner le document suivant",
+  "command.previous-document": "Sélectionner le document précédent",
+  "command.new-conversation": "Nouvelle conversation",
+  "command.toggle-sidebar": "Afficher ou masquer le panneau latéral",
+  "command.toggle-sources": "Afficher ou masquer les sources de la dernière réponse",
+  "command.copy-answer": "Copier la dernière réponse",
+  "command.focus-input": "Aller à la zone de question",
+
+  "shortcuts.title": "Raccourcis clavier",
+  "shortcuts.hint": "Cliquez sur un raccourci pour le modifier",
+  "shortcuts.reset": "Réinitialiser",
+  "shortcuts.resetTitle": "Rétablir les raccourcis par défaut",
+  "shortcuts.change": "Modifier le raccourci",
+  "shortcuts.add": "Ajouter un raccourci",
+  "shortcuts.none": "Aucun",
+  "shortcuts.recording": "Appuyez sur des touches… (Retour arrière pour effacer)",
+  "shortcuts.recordingHint": "appuyez sur les nouvelles touches, ou Retour arrière pour effacer",
+  "shortcuts.bindingLabel": "{command} : {binding}. Modifier le raccourci",
+  "shortcuts.unbound": "« {command} » n'a plus de raccourci.",
+  "shortcuts.fixed.title": "Dans la zone de question",
+  "shortcuts.fixed.send": "Envoyer la question",
+  "shortcuts.fixed.newLine": "Nouvelle ligne",
+  "shortcuts.fixed.recall": "Rappeler les questions précédentes (zone de question vide)",
+  "shortcuts.fixed.escape": "Fermer les fenêtres, annuler la modification",
+
+  "analytics.title": "Avis sur les réponses",
+  "analytics.stored": "Enregistré dans ce navigateur",
+  "analytics.storedAndSent": "Enregistré dans ce navigateur et envoyé au serveur",
+  "analytics.exportCsv": "Exporter les avis en CSV",
+  "analytics.averageResponse": "Réponse moy.",
+  "analytics.overAnswers_one": "sur {count} réponse",
+  "analytics.overAnswers_other": "sur {count} réponses",
+  "analytics.byDocument": "Par document",
+  "analytics.document": "Document",
+  "analytics.noAnswers": "Pas encore de réponses.",
+  "analytics.ratedDown": "Jugées pas utiles",
+  "analytics.quoted": "« {text} »",
+  "analytics.noNegative": "Aucun avis négatif.",
+  "answerSettings.title": "Réglages des réponses",
+  "answerSettings.hint": "Enregistrés avec chaque document et envoyés avec chaque question",
+  "answerSettings.document": "Document",
+  "answerSettings.model": "Modèle",
+  "answerSettings.defaultModel": "Modèle du serveur",
+  "answerSettings.temperature": "Température",
+  "answerSettings.temperatureHint": "Plus basse, la réponse colle au texte ; plus haute, elle varie davantage.",
+  "answerSettings.temperatureValue": "température {value}",
+  "answerSettings.topK": "Passages récupérés",
+  "answerSettings.topKHint": "Nombre de passages du document sur lesquels s'appuie chaque réponse.",
+  "answerSettings.chunks_one": "{count} passage",
+  "answerSettings.chunks_other": "{count} passages",
+  "answerSettings.styleLabel": "Longueur des réponses",
+  "answerSettings.style.concise": "Concise",
+  "answerSettings.style.balanced": "Équilibrée",
+  "answerSettings.style.detailed": "Détaillée",
+  "answerSettings.systemPrompt": "Instructions personnalisées",
+  "answerSettings.systemPromptPlaceholder": "ex. Répondez comme un juriste et citez les numéros d'article.",
+  "answerSettings.customPrompt": "instructions personnalisées",
+  "answerSettings.applyToAll": "Appliquer à la sélection",
+  "answerSettings.reset": "Réglages par défaut",
+  "answerSettings.usedLabel": "Réponse obtenue avec : {settings}",
+  "overview.summarizing": "Rédaction du résumé...",
+  "overview.suggestions": "Questions suggérées",
+  "overview.contents_one": "Sommaire ({count} entrée)",
+  "overview.contents_other": "Sommaire ({count} entrées)",
+  "overview.openPage": "Aller à la page {page}",
+  "overview.sectionQuestion": "Que couvre la section « {title} » ?",
+  "compare.button": "Comparer",
+  "compare.buttonTitle": "Poser les mêmes questions à deux documents et voir ce qui a changé",
+  "compare.title": "Comparer des documents",
+  "compare.close": "Quitter la comparaison",
+  "compare.original": "Document d'origine",
+  "compare.revised": "Document révisé",
+  "compare.swap": "Inverser les documents",
+  "compare.answersTab": "Réponses",
+  "compare.changesTab": "Modifications du texte",
+  "compare.empty": "Posez une question pour voir comment chaque document y répond, par ex. « Qu'est-ce qui a changé dans les conditions de paiement ? »",
+  "compare.placeholder": "Interrogez les deux documents...",
+  "compare.question": "Question pour les deux documents",
+  "compare.sources": "Sources",
+  "compare.changesLoading": "Comparaison du texte...",
+  "compare.changesUnavailable": "Les modifications du texte nécessitent le fichier PDF d'origine des deux documents.",
+  "compare.changesFailed": "Impossible de comparer le texte : {error}",
+  "compare.noChanges": "Le texte des deux documents est identique.",
+  "compare.linesAdded_one": "{count} ligne ajoutée",
+  "compare.linesAdded_other": "{count} lignes ajoutées",
+  "compare.linesRemoved_one": "{count} ligne supprimée",
+  "compare.linesRemoved_other": "{count} lignes supprimées",
+  "compare.hunkPages": "Page {left} → page {right}",
+  "compare.truncated": "Affichage des {shown} premières modifications sur {total}."
+};
+
+export default fr;
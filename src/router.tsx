@@ -0,0 +1,26 @@
+import { Navigate, type RouteObject } from "react-router";
+import ChatApp from "./components/chatapp/ChatApp";
+import AuthGate from "./components/auth/AuthGate";
+import AuthCallback from "./components/auth/AuthCallback";
+import MockIdpSignIn from "./components/auth/MockIdpSignIn";
+import { mockIdp } from "./lib/auth";
+import { ROUTES } from "./lib/routes";
+
+// ChatApp is the layout of every route, so moving between documents and
+// conversations never remounts it; it reads the ids from the URL itself. The
+// child routes only name the URLs, so they render nothing.
+export const routes: RouteObject[] = [
+  {
+    element: <AuthGate><ChatApp /></AuthGate>,
+    children: [
+      { index: true, element: null },
+      { path: ROUTES.document, element: null },
+      { path: ROUTES.conversation, element: null },
+      { path: ROUTES.transcript, element: null },
+      { path: ROUTES.compare, element: null }
+    ]
+  },
+  { path: ROUTES.authCallback, element: <AuthCallback /> },
+  ...(mockIdp ? [{ path: `${new URL(mockIdp.issuer).pathname}/authorize`, element: <MockIdpSignIn /> }] : []),
+  { path: "*", element: <Navigate to={ROUTES.home} replace /> }
+];
@@ -0,0 +1,142 @@
+import type { SetStateAction } from "react";
+import { create } from "zustand";
+import { api, type SessionInfo } from "@/lib/api";
+import type { ViewerTarget } from "@/components/chatapp/PdfViewer";
+import type { FileRejection } from "@/lib/uploadPolicy";
+import { loadBindings, saveBindings, type Bindings } from "@/lib/shortcuts";
+import { loadAnswerLanguage, saveAnswerLanguage } from "@/lib/i18n";
+import type { Conversation, Document, Feedback, Message } from "@/types/chat";
+
+// Everything the chat screens share. The active conversation is not in here:
+// it comes from the URL, so it can be bookmarked and followed with back/forward.
+
+export type DialogId = "search" | "palette" | "shortcuts" | "analytics" | "settings";
+
+interface ChatState {
+  documents: Document[];
+  conversations: Conversation[];
+  feedback: Feedback[];
+  loading: boolean;
+  apiError: string;
+  sessionInfo: SessionInfo | null;
+  showSources: Record<string, boolean>;
+  viewer: { docId: string; target?: ViewerTarget } | null;
+  rejections: FileRejection[];
+  // Question being edited in place
+  editing: { messageId: string; content: string } | null;
+  // Answer whose optional feedback comment is being written
+  feedbackDraft: { messageId: string; comment: string } | null;
+  dialog: DialogId | null;
+  sidebarOpen: boolean;
+  isMobile: boolean;
+  bindings: Bindings;
+  // Language answers are requested in; null lets the backend match the question
+  answerLanguage: string | null;
+  // Short confirmation shown above the question box, e.g. after copying
+  notice: string;
+  // Read out by screen readers: finished answers, completed uploads
+  announcement: string;
+  // Message just jumped to from search, outlined for a moment
+  highlightedMessageId: string | null;
+}
+
+type Setters = {
+  [K in keyof ChatState as `set${Capitalize<K>}`]: (update: SetStateAction<ChatState[K]>) => void;
+};
+
+interface ChatActions extends Setters {
+  updateDocument: (id: string, patch: Partial<Document>) => void;
+  // Changes one conversation and marks it as just active
+  updateConversation: (id: string, update: (conversation: Conversation) => Conversation) => void;
+  updateMessages: (conversationId: string, update: (messages: Message[]) => Message[]) => void;
+  // Fetches the details shown for a single selected document
+  refreshSessionInfo: (sessionId: string) => Promise<void>;
+  toggleDialog: (dialog: DialogId) => void;
+  toggleSources: (messageId: string) => void;
+  updateBindings: (bindings: Bindings) => void;
+  updateAnswerLanguage: (language: string | null) => void;
+}
+
+const initialState = (): ChatState => ({
+  documents: [],
+  conversations: [],
+  feedback: [],
+  loading: false,
+  apiError: "",
+  sessionInfo: null,
+  showSources: {},
+  viewer: null,
+  rejections: [],
+  editing: null,
+  feedbackDraft: null,
+  dialog: null,
+  sidebarOpen: true,
+  isMobile: false,
+  bindings: loadBindings(),
+  answerLanguage: loadAnswerLanguage(),
+  notice: "",
+  announcement: "",
+  highlightedMessageId: null
+});
+
+export const useChatStore = create<ChatState & ChatActions>()((set, get) => {
+  // Setters take a value or an updater, like the useState setters they replaced
+  const setter = <K extends keyof ChatState>(key: K) => (update: SetStateAction<ChatState[K]>) =>
+    set(state => ({
+      [key]: typeof update === "function" ? (update as (prev: ChatState[K]) => ChatState[K])(state[key]) : update
+    }) as Pick<ChatState, K>);
+
+  return {
+    ...initialState(),
+    setDocuments: setter("documents"),
+    setConversations: setter("conversations"),
+    setFeedback: setter("feedback"),
+    setLoading: setter("loading"),
+    setApiError: setter("apiError"),
+    setSessionInfo: setter("sessionInfo"),
+    setShowSources: setter("showSources"),
+    setViewer: setter("viewer"),
+    setRejections: setter("rejections"),
+    setEditing: setter("editing"),
+    setFeedbackDraft: setter("feedbackDraft"),
+    setDialog: setter("dialog"),
+    setSidebarOpen: setter("sidebarOpen"),
+    setIsMobile: setter("isMobile"),
+    setBindings: setter("bindings"),
+    setAnswerLanguage: setter("answerLanguage"),
+    setNotice: setter("notice"),
+    setAnnouncement: setter("announcement"),
+    setHighlightedMessageId: setter("highlightedMessageId"),
+
+    updateDocument: (id, patch) =>
+      set(state => ({ documents: state.documents.map(d => d.id === id ? { ...d, ...patch } : d) })),
+    updateConversation: (id, update) =>
+      set(state => ({
+        conversations: state.conversations.map(c => c.id === id ? { ...update(c), updatedAt: new Date() } : c)
+      })),
+    updateMessages: (conversationId, update) =>
+      get().updateConversation(conversationId, c => ({ ...c, messages: update(c.messages) })),
+    refreshSessionInfo: async (sessionId) => {
+      try {
+        set({ sessionInfo: await api.getSessionInfo(sessionId) });
+      } catch (error) {
+        console.error("Failed to fetch session info:", error);
+      }
+    },
+
+    toggleDialog: (dialog) => set({ dialog: get().dialog === dialog ? null : dialog }),
+    toggleSources: (messageId) =>
+      set(state => ({ showSources: { ...state.showSources, [messageId]: !state.showSources[messageId] } })),
+    updateBindings: (bindings) => {
+      set({ bindings });
+      saveBindings(bindings);
+    },
+    updateAnswerLanguage: (answerLanguage) => {
+      set({ answerLanguage });
+      saveAnswerLanguage(answerLanguage);
+    }
+  };
+});
+
+// Back to an empty workspace, with saved preferences read again
+export const resetChatStore = () => useChatStore.setState(initialState());
@@ -0,0 +1,15 @@
+import axe from "axe-core";
+
+/**
+ * Runs axe over a rendered container and returns its violations as
+ * "rule: target" lines, so a failing assertion shows what to fix.
+ * Colour contrast is skipped: jsdom doesn't compute styles.
+ */
+export async function axeViolations(container: Element = document.body) {
+  const results = await axe.run(container, {
+    rules: { "color-contrast": { enabled: false } }
+  });
+  return results.violations.flatMap(violation =>
+    violation.nodes.map(node => `${violation.id}: ${node.target.join(" ")}`)
+  );
+}
@@ -0,0 +1,94 @@
+// Straight from the modules, so tests that mock "@/lib/api" still get the real fake
+import { ApiError } from "@/lib/api/errors";
+import { createFakeClient } from "@/lib/api/fake";
+import type { ChatRequest, FeedbackRequest, SummaryRequest, UploadPolicyResponse } from "@/lib/api/types";
+
+export interface FakeBackendOptions {
+  latencyMs?: number;
+  tokenDelayMs?: number;
+  // Announced by /health, as a configured backend would
+  uploadPolicy?: UploadPolicyResponse;
+  models?: string[];
+}
+
+export type BackendHandler = (request: Request) => Promise<Response>;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+// Answers as a server-sent event stream, the way the Python backend does
+const chatStream = (client: ReturnType<typeof createFakeClient>, body: ChatRequest) => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    async start(controller) {
+      const send = (event: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      try {
+        const { sources } = await client.chatStream(body, { onToken: content => send({ type: "token", content }) });
+        send({ type: "sources", sources });
+        send({ type: "done" });
+      } catch (error) {
+        send({ type: "error", error: error instanceof Error ? error.message : String(error) });
+      }
+      controller.close();
+    }
+  }), { headers: { "Content-Type": "text/event-stream" } });
+};
+
+/**
+ * The backend's HTTP endpoints on top of the in-memory fake client: MSW serves
+ * it to component tests, and `e2e/backend.ts` serves it to Playwright. Each
+ * call starts with no sessions.
+ */
+export function createFakeBackend({ latencyMs = 0, tokenDelayMs = 0, uploadPolicy, models }: FakeBackendOptions = {}): BackendHandler {
+  const client = createFakeClient({ latencyMs, tokenDelayMs });
+
+  const route = async (request: Request) => {
+    const [, action, param] = new URL(request.url).pathname.split("/");
+    const upload = async (field: string, send: typeof client.uploadPdf) => {
+      const form = await request.formData();
+      return json(await send(String(form.get("session_id")), form.get(field) as File));
+    };
+
+    switch (`${request.method} /${action}${action === "chat" && param ? `/${param}` : ""}`) {
+      case "GET /health":
+        return json({
+          ...await client.health(),
+          ...(uploadPolicy ? { upload_policy: uploadPolicy } : {}),
+          ...(models ? { models } : {})
+        });
+      case "POST /create-session":
+        return json(await client.createSession());
+      case "POST /upload-pdf":
+        return upload("pdf", client.uploadPdf);
+      case "POST /upload-document":
+        return upload("file", client.uploadDocument);
+      case "POST /chat":
+        return json(await client.chat(await request.json() as ChatRequest));
+      case "POST /chat/stream": {
+        const body = await request.json() as ChatRequest;
+        // Unknown sessions fail before the stream starts
+        await client.getSessionInfo(body.session_id);
+        return chatStream(client, body);
+      }
+      case "GET /session-info":
+        return json(await client.getSessionInfo(decodeURIComponent(param)));
+      case "DELETE /clear-session":
+        return json(await client.clearSession(decodeURIComponent(param)));
+      case "POST /feedback":
+        return json(await client.sendFeedback(await request.json() as FeedbackRequest));
+      case "POST /summary":
+        return json(await client.summarize(await request.json() as SummaryRequest));
+      default:
+        return json({ error: "Not found" }, 404);
+    }
+  };
+
+  return async (request) => {
+    try {
+      return await route(request);
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
+      return json({ error: error.serverMessage ?? error.message }, error.status || 500);
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import { expect } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import type userEvent from "@testing-library/user-event";
+import { createMemoryRouter, RouterProvider } from "react-router";
+import { routes } from "@/router";
+
+// The whole app at `path`, with the router to inspect and drive history
+export const renderChat = (path = "/") => {
+  const router = createMemoryRouter(routes, { initialEntries: [path] });
+  return { router, ...render(<RouterProvider router={router} />) };
+};
+
+// Adds a file through the upload input and waits until it can be selected
+export const uploadFile = async (
+  user: ReturnType<typeof userEvent.setup>,
+  container: HTMLElement,
+  file = new File(["Meeting notes"], "notes.txt", { type: "text/plain" })
+) => {
+  const input = container.querySelector<HTMLInputElement>("#file-upload")!;
+  await user.upload(input, file);
+  const checkbox = await screen.findByRole("checkbox", { name: `Select ${file.name}` });
+  await waitFor(() => expect(checkbox).toBeEnabled(), { timeout: 5000 });
+  return checkbox;
+};
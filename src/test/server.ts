@@ -0,0 +1,18 @@
+import { http } from "msw";
+import { setupServer } from "msw/node";
+import { createFakeBackend, type FakeBackendOptions } from "./backend";
+
+// Origin the HTTP client is pointed at in tests that go through MSW
+export const BACKEND_URL = "http://backend.test";
+
+let backend = createFakeBackend();
+
+// Intercepts every request to BACKEND_URL; tests override single endpoints with `server.use`
+export const server = setupServer(
+  http.all(`${BACKEND_URL}/*`, ({ request }) => backend(request))
+);
+
+// A backend with no sessions, for the next test
+export const resetBackend = (options?: FakeBackendOptions) => {
+  backend = createFakeBackend(options);
+};
@@ -0,0 +1,63 @@
+import "@testing-library/jest-dom/vitest";
+import { afterEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+afterEach(cleanup);
+
+// pdf.js needs canvas APIs jsdom lacks; tests that render PDFs mock @/lib/pdf themselves
+vi.mock("pdfjs-dist", () => ({
+  GlobalWorkerOptions: {},
+  getDocument: () => {
+    throw new Error("pdf.js is not available in tests");
+  },
+  TextLayer: class {}
+}));
+
+// Browser APIs the components rely on that jsdom doesn't provide
+window.matchMedia ??= (query: string) => ({
+  matches: false,
+  media: query,
+  onchange: null,
+  addListener: () => {},
+  removeListener: () => {},
+  addEventListener: () => {},
+  removeEventListener: () => {},
+  dispatchEvent: () => false
+});
+
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+Element.prototype.scrollIntoView ??= function () {};
+
+// jsdom's Blob predates the promise-based readers
+const readAs = <T>(read: (reader: FileReader) => void) =>
+  new Promise<T>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(reader.error);
+    read(reader);
+  });
+Blob.prototype.arrayBuffer ??= function (this: Blob) {
+  return readAs<ArrayBuffer>(reader => reader.readAsArrayBuffer(this));
+};
+Blob.prototype.text ??= function (this: Blob) {
+  return readAs<string>(reader => reader.readAsText(this));
+};
+// ...and streams, which request bodies with files in them are read through
+Blob.prototype.stream ??= function (this: Blob) {
+  return new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      controller.enqueue(new Uint8Array(await this.arrayBuffer()));
+      controller.close();
+    }
+  });
+};
+
+// jsdom's ArrayBuffer comes from another realm, which Node's crypto rejects; a view over it passes
+const digest = crypto.subtle.digest.bind(crypto.subtle);
+crypto.subtle.digest = (algorithm, data) =>
+  digest(algorithm, data instanceof ArrayBuffer ? new Uint8Array(data) : data);
@@ -0,0 +1,104 @@
+import type { FeedbackRating, Source } from "@/lib/api";
+import type { PdfInspection } from "@/lib/pdfInspect";
+import type { AnswerSettings } from "@/lib/answerSettings";
+
+// A source labelled with the document whose session returned it
+export interface MessageSource extends Source {
+  documentId: string;
+  documentName: string;
+}
+
+export interface Message {
+  id: string;
+  // Message this one follows or answers; null for the first question
+  parentId?: string | null;
+  role: "user" | "bot";
+  content: string;
+  timestamp: Date;
+  sources?: MessageSource[];
+  // Bot answer still receiving tokens
+  streaming?: boolean;
+  // Bot answer cut short by the Stop button
+  stopped?: boolean;
+  // User question waiting in the outbox for the backend to come back
+  pending?: boolean;
+  // Bot answers: milliseconds from sending the question to the last token
+  latencyMs?: number;
+  // Bot answers: the settings each document was asked with, by document id
+  settings?: Record<string, AnswerSettings>;
+}
+
+// A rating left on a bot answer. Kept in its own store, so the analytics
+// outlive the conversation it came from.
+export interface Feedback {
+  // The rated bot message
+  messageId: string;
+  conversationId: string;
+  // Captured when rated, since the documents may be removed later
+  documentNames: string[];
+  sessionIds: string[];
+  question: string;
+  answer: string;
+  rating: FeedbackRating;
+  comment?: string;
+  latencyMs?: number;
+  createdAt: Date;
+  // Accepted by the backend's feedback endpoint
+  synced: boolean;
+}
+
+// Where an in-flight upload is: checking the file locally, waiting for a slot,
+// creating its backend session, sending bytes, or waiting for the server to index the file
+export type UploadPhase = "inspecting" | "queued" | "session" | "uploading" | "processing";
+
+// Why an upload is on hold until the user acts
+export type UploadHold = "password" | "wrong-password" | "confirmation";
+
+export interface Document {
+  id: string;
+  name: string;
+  size: number;
+  // Document type registry id; documents saved before other formats existed are PDFs
+  type?: string;
+  // SHA-256 of the content, for duplicate detection
+  hash?: string;
+  uploaded: boolean;
+  progress: number;
+  selected: boolean;
+  sessionId?: string;
+  error?: string;
+  // Set while the upload is in flight
+  phase?: UploadPhase;
+  awaiting?: UploadHold;
+  // Pre-upload findings for PDFs
+  inspection?: PdfInspection;
+  // Chosen in the answer settings drawer; unset means the defaults
+  settings?: AnswerSettings;
+  // Written by the backend once the document is processed
+  summary?: DocumentSummary;
+  // Set while the summary is being written
+  summarizing?: boolean;
+  // Original upload, kept client-side for the viewer
+  file?: File;
+}
+
+export interface DocumentSummary {
+  // Empty when the backend can't summarise documents
+  text: string;
+  questions: string[];
+}
+
+// A thread of messages about a fixed set of documents
+export interface Conversation {
+  id: string;
+  title: string;
+  documentIds: string[];
+  messages: Message[];
+  createdAt: Date;
+  updatedAt: Date;
+  // Chosen child per parent message id, for parents with several branches
+  branches?: Record<string, string>;
+  // Imported transcripts: no local documents, only their names, and no follow-ups
+  documentNames?: string[];
+  readOnly?: boolean;
+}
@@ -1 +1,23 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL: string;
+  readonly VITE_USE_FAKE_API?: string;
+  // Sign-in: an OpenID Connect provider, or the built-in mock one
+  readonly VITE_OIDC_ISSUER?: string;
+  readonly VITE_OIDC_CLIENT_ID?: string;
+  readonly VITE_OIDC_SCOPE?: string;
+  readonly VITE_USE_MOCK_IDP?: string;
+  // Upload policy fallbacks when the backend doesn't announce one
+  readonly VITE_MAX_FILE_SIZE_MB?: string;
+  readonly VITE_MAX_PAGES?: string;
+  readonly VITE_MAX_WORKSPACE_DOCUMENTS?: string;
+  readonly VITE_ALLOWED_TYPES?: string;
+  readonly VITE_REJECT_DUPLICATES?: string;
+  // Comma-separated models for the answer settings, when /health lists none
+  readonly VITE_MODELS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
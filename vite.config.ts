@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path"
 import react from "@vitejs/plugin-react"
 import { defineConfig } from "vite"
@@ -10,4 +11,12 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+    // e2e/ belongs to Playwright
+    include: ["src/**/*.test.{ts,tsx}"],
+    // Component tests talk to the in-memory backend
+    env: { VITE_USE_FAKE_API: "true" },
+  },
 })
\ No newline at end of file